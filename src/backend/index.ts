@@ -117,9 +117,15 @@ export default class BackendImpl extends EventEmitter implements Backend {
    * Called when receiving feedback from the backend service.
    *
    * @param {Object} result - JSON-RPC params data for the feedback event.
+   * @param {Object} raw - Feedback as reported by the backend service, if
+   *   `result` is collapsed.
    */
-  public onFeedback(result: any) {
-    this.emit('data', rpc.createRequest(null, 'xFeedback/Event', result));
+  public onFeedback(result: any, raw?: any) {
+    const notification = rpc.createRequest(null, 'xFeedback/Event', result);
+    this.emit(
+      'data',
+      raw === undefined ? notification : { ...notification, rawParams: raw },
+    );
   }
 
   /**
@@ -139,7 +139,7 @@ export default class TSHBackend extends Backend {
   private onParserData(data: any) {
     if (!{}.hasOwnProperty.call(data, 'ResultId')) {
       log.debug('[tsh] (feedback):', JSON.stringify(data));
-      this.onFeedback(rpc.parseFeedbackResponse(data));
+      this.onFeedback(rpc.parseFeedbackResponse(data), data);
     } else {
       log.debug('[tsh] (result):', JSON.stringify(data));
       this.onResult(data.ResultId, data);
@@ -156,7 +156,7 @@ export default class TSHBackend extends Backend {
   /**
    * @ignore
    */
-  private ['xCommand()']({ method, params }: any, send: any) {
+  private ['xCommand()']({ method, params, raw }: any, send: any) {
     const paramsCopy = Object.assign({}, params);
     const { body } = paramsCopy;
     delete paramsCopy.body;
@@ -172,7 +172,9 @@ export default class TSHBackend extends Backend {
       .concat(tshParams)
       .join(' ');
 
-    return send(cmd, body).then(rpc.createCommandResponse);
+    return send(cmd, body).then((response: any) =>
+      rpc.createCommandResponse(response, raw),
+    );
   }
 
   /**
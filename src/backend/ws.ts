@@ -55,9 +55,11 @@ export default class WSBackend extends EventEmitter implements Backend {
   }
 
   public execute(command: XapiRequest): Promise<void> {
+    // JSON-RPC results are not collapsed, so `raw` needs no handling
+    const { raw, ...request } = command;
     return this.isReady.then(() => {
-      log.debug('[transport] (send): ', JSON.stringify(command));
-      this.ws.send(JSON.stringify(command));
+      log.debug('[transport] (send): ', JSON.stringify(request));
+      this.ws.send(JSON.stringify(request));
     });
   }
 
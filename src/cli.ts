@@ -7,7 +7,7 @@ import * as path from 'path';
 import * as REPL from 'repl';
 import xdgBasedir from 'xdg-basedir';
 
-import { connect } from './';
+import { connect, connectAsync } from './';
 import log from './log';
 import fetch from './schema/fetch';
 import generate from './schema/generate';
@@ -31,6 +31,38 @@ function startRepl(xapi: XAPI) {
   repl.context.xapi = xapi;
 }
 
+async function applyBatch(host: string, file: string, options: any) {
+  const operations = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(operations)) {
+    throw new Error(`Batch file must contain an array of operations: ${file}`);
+  }
+
+  const xapi = await connectAsync(host, options);
+  // Operations still pending when the connection is lost are reported
+  xapi.on('error', (error: any) => {
+    log.error('xapi error:', error);
+  });
+  try {
+    const results = await xapi.batch(operations, {
+      // Invalid values such as "2abc" are rejected by batch()
+      parallelism: Number(options.parallelism),
+      stopOnError: !!options.stopOnError,
+    });
+    const output = results.map(({ error, status, value }) => ({
+      error: error && error.message,
+      status,
+      value,
+    }));
+    // tslint:disable-next-line no-console
+    console.log(JSON.stringify(output, null, 2));
+    if (results.some((result) => result.status !== 'fulfilled')) {
+      process.exitCode = 1;
+    }
+  } finally {
+    xapi.close();
+  }
+}
+
 /**
  * Main entrypoint for the CLI application.
  *
@@ -48,6 +80,21 @@ function main() {
       xapis.forEach((xapi: XAPI) => xapi.close());
     });
 
+  commander
+    .command('batch <host> <file>')
+    .description('apply a JSON <file> of batch operations on <host>')
+    .option('-p, --port <port>', 'port to connect to')
+    .option('-U, --username <user>', 'username to authenticate with', 'admin')
+    .option('-P, --password <password>', 'password to authenticate with', '')
+    .option('--parallelism <n>', 'number of operations to run concurrently', '1')
+    .option('--stop-on-error', 'skip remaining operations after a failure')
+    .action((host, file, options) => {
+      applyBatch(host, file, options).catch((error) => {
+        log.error('batch error:', error);
+        process.exitCode = 1;
+      });
+    });
+
   commander
     .version(version)
     .arguments('<host> [file]')
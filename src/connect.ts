@@ -4,6 +4,7 @@ import { Backend } from './backend';
 import log from './log';
 import { InitBackend, Options } from './types';
 import XAPI from './xapi';
+import { XapiOptions } from './xapi/types';
 
 export const globalDefaults: Options = {
   command: '',
@@ -12,6 +13,7 @@ export const globalDefaults: Options = {
   password: '',
   port: 0,
   protocol: '',
+  reconnect: false,
   username: 'admin',
 };
 
@@ -20,6 +22,45 @@ export interface Connect<T extends XAPI> {
   (url: string, options?: Partial<Options>): T;
 }
 
+export interface ConnectAsync<T extends XAPI> {
+  (options: Partial<Options>): Promise<T>;
+  (url: string, options?: Partial<Options>): Promise<T>;
+}
+
+/**
+ * Turn a connect function into one returning a promise, resolved with the XAPI
+ * instance once the connection is ready. The promise is rejected if the
+ * connection fails, e.g. due to authentication or network errors. Errors
+ * after that are emitted as `error` events on the XAPI instance, and logged
+ * if the application has no listener of its own.
+ */
+export function promisifyConnect<T extends XAPI>(
+  connect: Connect<T>,
+): ConnectAsync<T> {
+  return (...args: any[]) => {
+    let xapi: T;
+    try {
+      xapi = (connect as any)(...args);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    // Connection errors are reported through the returned promise. Later
+    // errors must not crash the process when nobody listens for them.
+    let connected = false;
+    xapi.on('error', (error: any) => {
+      if (connected && xapi.listenerCount('error') === 1) {
+        log.error('xapi error:', error);
+      }
+    });
+
+    return xapi.ready().then((ready) => {
+      connected = true;
+      return ready;
+    });
+  };
+}
+
 function resolveOptions(
   targetDefaults: Partial<Options>,
   url: string,
@@ -51,7 +92,7 @@ function resolveOptions(
 export default function connectOverload<T extends XAPI>(
   initBackend: InitBackend,
   defaults: Partial<Options>,
-): (XAPI: new (backend: Backend) => T) => Connect<T> {
+): (XAPI: new (backend: Backend, options?: XapiOptions) => T) => Connect<T> {
   return (xapi) => (...args: any[]) => {
     let url: string;
     let options: Options;
@@ -76,6 +117,9 @@ export default function connectOverload<T extends XAPI>(
     log.info('connecting to', url);
 
     const backend = initBackend(opts);
-    return new xapi(backend);
+    return new xapi(backend, {
+      createBackend: () => initBackend(opts),
+      reconnect: opts.reconnect,
+    });
   };
 }
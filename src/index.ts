@@ -3,14 +3,17 @@ import WS from 'ws';
 import { Backend } from './backend';
 import TSHBackend from './backend/tsh';
 import WSBackend from './backend/ws';
-import connectOverload from './connect';
+import connectOverload, { promisifyConnect } from './connect';
 import connectSSH from './transport/ssh';
 import spawnTSH from './transport/tsh';
 import websocketConnect from './transport/ws';
 import { Options } from './types';
 import XAPI from './xapi';
+import * as interceptors from './xapi/interceptors';
+import { XapiOptions } from './xapi/types';
 
 export { default as XAPI } from './xapi';
+export { interceptors };
 
 function initBackend(opts: Options) {
   const { host, port, protocol } = opts;
@@ -41,7 +44,9 @@ function initBackend(opts: Options) {
   }
 }
 
-export function connectGen<T extends XAPI>(xapi: new (backend: Backend) => T) {
+export function connectGen<T extends XAPI>(
+  xapi: new (backend: Backend, options?: XapiOptions) => T,
+) {
   return connectOverload<T>(initBackend, { protocol: 'wss:' })(xapi);
 }
 
@@ -57,3 +62,22 @@ export function connectGen<T extends XAPI>(xapi: new (backend: Backend) => T) {
  * @return XAPI interface connected to the given URI.
  */
 export const connect = connectGen(XAPI);
+
+export function connectAsyncGen<T extends XAPI>(
+  xapi: new (backend: Backend, options?: XapiOptions) => T,
+) {
+  return promisifyConnect(connectGen(xapi));
+}
+
+/**
+ * Connect to an XAPI endpoint and wait for the connection to be ready.
+ *
+ * ```typescript
+ * const xapi = await connectAsync('ssh://host.example.com:22');
+ * ```
+ *
+ * @param url Connection specification.
+ * @param options Connect options.
+ * @return Resolved with the XAPI interface when the connection is ready.
+ */
+export const connectAsync = connectAsyncGen(XAPI);
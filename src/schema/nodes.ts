@@ -84,17 +84,42 @@ export class Root extends Node {
     const registration = new Plain('Registration');
     const listenable = this.addInterface('Listenable<T>');
     const handler = new Function('handler', [['value', new Plain('T')]]);
+    this.addImports('lib/xapi/observable', ['Observable']);
+    this.addImports('lib/xapi/types', ['ListenerOptions', 'WaitOptions']);
+    const waitOptions = new Plain('WaitOptions');
+    const predicate = new Function('predicate', [['value', new Plain('T')]], new Plain('boolean'));
     listenable.addChildren([
-      new Function('on', [['handler', handler]], registration),
+      new Function(
+        'on',
+        [['handler', handler], ['options?', new Plain('ListenerOptions')]],
+        registration,
+      ),
       new Function('once', [['handler', handler]], registration),
+      new Function('iterate', [], new Generic('AsyncIterableIterator', templateParam)),
+      new Function('observe', [], new Generic('Observable', templateParam)),
+      new Function(
+        'waitFor',
+        [['predicate?', predicate], ['options?', waitOptions]],
+        new Generic('Promise', templateParam),
+      ),
+      new Function(
+        'next',
+        [['options?', waitOptions]],
+        new Generic('Promise', templateParam),
+      ),
     ]);
 
+    const watchable = this.addInterface('Watchable<T>');
+    watchable.addChild(
+      new Function('observe', [['handler', handler]], registration),
+    );
+
     this.addChild(new class extends Node {
       public serialize() {
         return `\
 type Configify<T> = [T] extends [object]
-  ? { [P in keyof T]: Configify<T[P]>; } & Gettable<T> & Listenable<T>
-  : Gettable<T> & Settable<T> & Listenable<T>;`;
+  ? { [P in keyof T]: Configify<T[P]>; } & Gettable<T> & Listenable<T> & Watchable<T>
+  : Gettable<T> & Settable<T> & Listenable<T> & Watchable<T>;`;
       }
     }());
 
@@ -108,7 +133,7 @@ type Eventify<T> = { [P in keyof T]: Eventify<T[P]>; } & Listenable<T>;`;
     this.addChild(new class extends Node {
       public serialize() {
         return `\
-type Statusify<T> = { [P in keyof T]: Statusify<T[P]>; } & Gettable<T> & Listenable<T>;`;
+type Statusify<T> = { [P in keyof T]: Statusify<T[P]>; } & Gettable<T> & Listenable<T> & Watchable<T>;`;
       }
     }());
   }
@@ -1,5 +1,6 @@
 import { LogLevelDesc } from 'loglevel';
 import { Backend } from './backend';
+import { ReconnectPolicy } from './xapi/types';
 
 /**
  * Connection options.
@@ -29,6 +30,11 @@ export interface Options {
    * Protocol for the connection (e.g. ssh:, wss:)
    */
   protocol: string;
+  /**
+   * Reconnect policy used when the connection is lost after being
+   * established. `true` uses the default policy, `false` disables it.
+   */
+  reconnect: boolean | Partial<ReconnectPolicy>;
   /**
    * Username used for authorization.
    */
@@ -0,0 +1,81 @@
+import XAPI from '.';
+import { BatchOperation, BatchOptions, BatchResult, RequestOptions } from './types';
+
+function runOperation(
+  xapi: XAPI,
+  operation: BatchOperation,
+  options: RequestOptions,
+): Promise<any> {
+  if ('command' in operation) {
+    const { body, command, params } = operation;
+    return xapi.command(command, params, body, options);
+  }
+  if ('status' in operation) {
+    return xapi.status.get(operation.status, options);
+  }
+  if ('config' in operation) {
+    const { config, value } = operation;
+    return typeof value === 'undefined'
+      ? xapi.config.get(config, options)
+      : xapi.config.set(config, value, options);
+  }
+  throw new Error(`Invalid batch operation: ${JSON.stringify(operation)}`);
+}
+
+/**
+ * Execute a list of operations, in order or with limited parallelism.
+ *
+ * @param xapi XAPI instance to execute the operations on.
+ * @param operations Operations to execute.
+ * @param options Batch options.
+ * @return Resolved with one result per operation, in the same order.
+ *   Rejected if `parallelism` is not a positive integer.
+ */
+export default function batch(
+  xapi: XAPI,
+  operations: BatchOperation[],
+  options: BatchOptions = {},
+): Promise<BatchResult[]> {
+  const { parallelism = 1, stopOnError = false, ...requestOptions } = options;
+  if (!Number.isInteger(parallelism) || parallelism < 1) {
+    return Promise.reject(
+      new Error(`Invalid batch parallelism: ${parallelism}`),
+    );
+  }
+  const results: BatchResult[] = operations.map(
+    (): BatchResult => ({ status: 'skipped' }),
+  );
+  let next = 0;
+  let failed = false;
+
+  const worker = (): Promise<void> => {
+    if (next >= operations.length || (stopOnError && failed)) {
+      return Promise.resolve();
+    }
+
+    const index = next;
+    next += 1;
+
+    return new Promise((resolve) => {
+      resolve(runOperation(xapi, operations[index], requestOptions));
+    })
+      .then(
+        (value) => {
+          results[index] = { status: 'fulfilled', value };
+        },
+        (error) => {
+          failed = true;
+          results[index] = { error, status: 'rejected' };
+        },
+      )
+      .then(worker);
+  };
+
+  const workers = [];
+  const count = Math.min(parallelism, operations.length);
+  for (let i = 0; i < count; i += 1) {
+    workers.push(worker());
+  }
+
+  return Promise.all(workers).then(() => results);
+}
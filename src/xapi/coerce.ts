@@ -0,0 +1,225 @@
+import log from '../log';
+import { FeedbackInterceptor } from './feedback';
+import Schema, { dig, isAttr, leafValueSpace } from './schema';
+import { CoerceOptions, Middleware, NormalizedPath, ValueSpace } from './types';
+import { isObject } from './utils';
+
+/**
+ * Schema roots by lower cased name.
+ */
+const ROOTS: { [name: string]: string } = {
+  command: 'Command',
+  configuration: 'Configuration',
+  event: 'Event',
+  status: 'Status',
+};
+
+/**
+ * Convert an integer string to a number. Strings with leading zeros, such as
+ * phone numbers, and integers that cannot be represented exactly are kept.
+ */
+function toInteger(value: any) {
+  if (typeof value !== 'string' || !/^\s*-?(0|[1-9]\d*)\s*$/.test(value)) {
+    return value;
+  }
+  const parsed = parseInt(value, 10);
+  return Number.isSafeInteger(parsed) ? parsed : value;
+}
+
+/**
+ * Convert a literal to a boolean if it is part of one of the given pairs.
+ */
+function toBoolean(pairs: [string, string][], value: any) {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const lower = value.toLowerCase();
+  for (const [truthy, falsy] of pairs) {
+    if (lower === truthy.toLowerCase()) {
+      return true;
+    }
+    if (lower === falsy.toLowerCase()) {
+      return false;
+    }
+  }
+  return value;
+}
+
+/**
+ * Find the boolean pair matching the literals of a value space.
+ */
+function booleanPair(
+  options: CoerceOptions,
+  literals?: string[],
+): [string, string] | undefined {
+  if (!literals || literals.length !== 2 || !options.booleans) {
+    return undefined;
+  }
+  const lower = literals.map((l) => l.toLowerCase()).sort();
+  return options.booleans.find((pair) => {
+    const sorted = pair.map((l) => l.toLowerCase()).sort();
+    return sorted[0] === lower[0] && sorted[1] === lower[1];
+  });
+}
+
+function coerceValue(
+  valueSpace: ValueSpace,
+  value: any,
+  options: CoerceOptions,
+): any {
+  const { literals, type } = valueSpace;
+  if (/Array$/.test(type)) {
+    const elementType = { ...valueSpace, type: type.replace(/Array$/, '') };
+    const values = Array.isArray(value) ? value : [value];
+    return values.map((v) => coerceValue(elementType, v, options));
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => coerceValue(valueSpace, v, options));
+  }
+
+  switch (type) {
+    case 'Integer':
+      return toInteger(value);
+    case 'Literal': {
+      const pair = booleanPair(options, literals);
+      return pair ? toBoolean([pair], value) : value;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Coerce data according to its schema node. Parts of the data without a
+ * schema are left as is.
+ *
+ * @param node Schema node describing the data.
+ * @param data Collapsed XAPI data.
+ * @param options Coercion options.
+ * @return Coerced copy of the data.
+ */
+export function coerce(
+  node: any,
+  data: any,
+  options: CoerceOptions = {},
+): any {
+  if (node === undefined || data === undefined || data === null) {
+    return data;
+  }
+
+  const valueSpace = leafValueSpace(node);
+  if (valueSpace) {
+    return coerceValue(valueSpace, data, options);
+  }
+  if (Array.isArray(data)) {
+    return data.map((element) => coerce(node, element, options));
+  }
+  if (isObject(data)) {
+    const result: { [key: string]: any } = {};
+    Object.keys(data).forEach((key) => {
+      result[key] = isAttr(key)
+        ? data[key]
+        : coerce(dig(node, [key]), data[key], options);
+    });
+    return result;
+  }
+
+  // Event leaves have a type instead of a value space
+  const leaf = Array.isArray(node) ? node[0] : node;
+  return isObject(leaf) && leaf.type === 'int' ? toInteger(data) : data;
+}
+
+/**
+ * Coerce data not described by the schema, converting integer strings and
+ * boolean literals.
+ */
+function coerceUntyped(data: any, options: CoerceOptions): any {
+  if (Array.isArray(data)) {
+    return data.map((element) => coerceUntyped(element, options));
+  }
+  if (isObject(data)) {
+    const result: { [key: string]: any } = {};
+    Object.keys(data).forEach((key) => {
+      result[key] = isAttr(key)
+        ? data[key]
+        : coerceUntyped(data[key], options);
+    });
+    return result;
+  }
+  return toBoolean(options.booleans || [], toInteger(data));
+}
+
+/**
+ * Fetch the schema of the root (e.g. `Status`) of the given path.
+ */
+function rootNode(schema: Schema, name: string | number) {
+  const root = ROOTS[name.toString().toLowerCase()];
+  return root ? schema.node([root]) : Promise.resolve(undefined);
+}
+
+/**
+ * Create a middleware coercing `xGet` results, and command responses if
+ * enabled, into JavaScript types. Raw requests are left as is.
+ *
+ * @param schema Schema describing the values.
+ * @param options Coercion options.
+ * @return Request middleware.
+ */
+export function coerceResults(
+  schema: Schema,
+  options: CoerceOptions = {},
+): Middleware {
+  return (request, next) => {
+    const { method, params, raw } = request;
+    if (raw) {
+      return next(request);
+    }
+    if (method === 'xGet' && params && Array.isArray(params.Path)) {
+      const path: NormalizedPath = params.Path;
+      return Promise.all([
+        next(request),
+        rootNode(schema, path[0]).catch(() => undefined),
+      ]).then(([result, root]) =>
+        coerce(dig(root, path.slice(1)), result, options),
+      );
+    }
+    if (method.startsWith('xCommand/') && options.commands) {
+      return next(request).then((result) => coerceUntyped(result, options));
+    }
+    return next(request);
+  };
+}
+
+/**
+ * Create a feedback interceptor coercing feedback into JavaScript types.
+ * The schema is fetched on the first feedback for each root, and payloads
+ * are emitted in the order they arrive.
+ *
+ * @param schema Schema describing the values.
+ * @param options Coercion options.
+ * @return Feedback interceptor.
+ */
+export function coerceFeedback(
+  schema: Schema,
+  options: CoerceOptions = {},
+): FeedbackInterceptor {
+  let queue = Promise.resolve();
+  return (payload, emit) => {
+    const keys = Object.keys(payload).filter((key) => !isAttr(key));
+    const nodes = Promise.all(
+      keys.map((key) => rootNode(schema, key).catch(() => undefined)),
+    );
+    queue = queue
+      .then(() => nodes)
+      .then((roots) => {
+        const result = { ...payload };
+        keys.forEach((key, i) => {
+          result[key] = coerce(roots[i], payload[key], options);
+        });
+        emit(result);
+      })
+      .catch((error) => {
+        log.warn('failed to coerce feedback', error);
+      });
+  };
+}
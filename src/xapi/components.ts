@@ -1,8 +1,16 @@
 import XAPI from '.';
 import { Registration } from './feedback';
-import { Gettable, Listenable, mix, Settable } from './mixins';
+import { Gettable, Listenable, mix, Settable, Watchable } from './mixins';
 import normalizePath from './normalizePath';
-import { Listener, Path } from './types';
+import { Observable } from './observable';
+import {
+  Listener,
+  ListenerOptions,
+  Path,
+  Predicate,
+  RequestOptions,
+  WaitOptions,
+} from './types';
 
 /**
  * Common base class for XAPI section types (commands, configs, events, statuses).
@@ -33,19 +41,39 @@ class Component {
 /**
  * Interface to XAPI configurations.
  */
-export class Config extends mix(Component, Listenable, Gettable, Settable)
-  implements Component, Listenable, Gettable, Settable {
+export class Config
+  extends mix(Component, Listenable, Gettable, Settable, Watchable)
+  implements Component, Listenable, Gettable, Settable, Watchable {
   public prefix = 'Configuration';
 
   // fake mixins
   public normalizePath!: (path: Path) => (string | number)[];
 
-  public on!: <T = any>(path: Path, listener: Listener<T>) => Registration;
+  public on!: <T = any>(
+    path: Path,
+    listener: Listener<T>,
+    options?: ListenerOptions,
+  ) => Registration;
   public once!: <T = any>(path: Path, listener: Listener<T>) => Registration;
+  public iterate!: <T = any>(path: Path) => AsyncIterableIterator<T>;
+  public waitFor!: <T = any>(
+    path: Path,
+    predicate?: Predicate<T>,
+    options?: WaitOptions,
+  ) => Promise<T>;
+  public next!: <T = any>(path: Path, options?: WaitOptions) => Promise<T>;
+  public observe!: {
+    <T = any>(path: Path): Observable<T>;
+    <T = any>(path: Path, listener: Listener<T>): Registration;
+  };
   public off!: () => void;
 
-  public get!: <T = any>(path: Path) => Promise<T>;
-  public set!: (path: Path, value: number | string) => Promise<any>;
+  public get!: <T = any>(path: Path, options?: RequestOptions) => Promise<T>;
+  public set!: (
+    path: Path,
+    value: number | string,
+    options?: RequestOptions,
+  ) => Promise<any>;
 
   constructor(public readonly xapi: XAPI) {
     super();
@@ -62,8 +90,20 @@ export class Event extends mix(Component, Listenable)
   // fake mixins
   public normalizePath!: (path: Path) => (string | number)[];
 
-  public on!: <T = any>(path: Path, listener: Listener<T>) => Registration;
+  public on!: <T = any>(
+    path: Path,
+    listener: Listener<T>,
+    options?: ListenerOptions,
+  ) => Registration;
   public once!: <T = any>(path: Path, listener: Listener<T>) => Registration;
+  public iterate!: <T = any>(path: Path) => AsyncIterableIterator<T>;
+  public waitFor!: <T = any>(
+    path: Path,
+    predicate?: Predicate<T>,
+    options?: WaitOptions,
+  ) => Promise<T>;
+  public next!: <T = any>(path: Path, options?: WaitOptions) => Promise<T>;
+  public observe!: <T = any>(path: Path) => Observable<T>;
   public off!: () => void;
 
   constructor(readonly xapi: XAPI) {
@@ -74,18 +114,33 @@ export class Event extends mix(Component, Listenable)
 /**
  * Interface to XAPI statuses.
  */
-export class Status extends mix(Component, Listenable, Gettable)
-  implements Component, Listenable, Gettable {
+export class Status extends mix(Component, Listenable, Gettable, Watchable)
+  implements Component, Listenable, Gettable, Watchable {
   public prefix = 'Status';
 
   // fake mixins
   public normalizePath!: (path: Path) => (string | number)[];
 
-  public on!: <T = any>(path: Path, listener: Listener<T>) => Registration;
+  public on!: <T = any>(
+    path: Path,
+    listener: Listener<T>,
+    options?: ListenerOptions,
+  ) => Registration;
   public once!: <T = any>(path: Path, listener: Listener<T>) => Registration;
+  public iterate!: <T = any>(path: Path) => AsyncIterableIterator<T>;
+  public waitFor!: <T = any>(
+    path: Path,
+    predicate?: Predicate<T>,
+    options?: WaitOptions,
+  ) => Promise<T>;
+  public next!: <T = any>(path: Path, options?: WaitOptions) => Promise<T>;
+  public observe!: {
+    <T = any>(path: Path): Observable<T>;
+    <T = any>(path: Path, listener: Listener<T>): Registration;
+  };
   public off!: () => void;
 
-  public get!: <T = any>(path: Path) => Promise<T>;
+  public get!: <T = any>(path: Path, options?: RequestOptions) => Promise<T>;
 
   constructor(public readonly xapi: XAPI) {
     super();
@@ -1,3 +1,6 @@
+import { ValueSpace } from './types';
+import { formatValueSpace } from './valuespace';
+
 export const UNKNOWN_ERROR = 0;
 export const COMMAND_ERROR = 1;
 export const ILLEGAL_VALUE = 2;
@@ -5,10 +8,35 @@ export const INVALID_PATH = 3;
 export const PARAMETER_ERROR = 4;
 export const INVALID_RESPONSE = 5;
 export const INVALID_STATUS = 6;
+export const REQUEST_TIMEOUT = 7;
+export const REQUEST_ABORTED = 8;
+export const CONNECTION_CLOSED = 9;
+export const QUEUE_FULL = 10;
 export const METHOD_NOT_FOUND = -32601;
 
+/**
+ * The request an error response was received for.
+ */
+export interface ErrorContext {
+  method?: string;
+  path?: (string | number)[];
+  params?: any;
+}
+
 export class XAPIError extends Error {
-  private data?: any;
+  /**
+   * Method of the failed request, set for errors received from the backend.
+   */
+  public method?: string;
+  /**
+   * XAPI path targeted by the failed request, if any.
+   */
+  public path?: (string | number)[];
+  /**
+   * Parameters of the failed request.
+   */
+  public params?: any;
+  protected data?: any;
   constructor(readonly code: number, reason: string, data?: any) {
     super(reason);
     Object.setPrototypeOf(this, XAPIError.prototype);
@@ -26,23 +54,212 @@ export class XAPIError extends Error {
   }
 }
 
-export class IllegalValueError extends XAPIError {
-  constructor(reason: string) {
-    super(ILLEGAL_VALUE, reason);
+export class CommandError extends XAPIError {
+  constructor(reason: string, data?: any) {
+    super(COMMAND_ERROR, reason, data);
+    Object.setPrototypeOf(this, CommandError.prototype);
+  }
+}
+
+/**
+ * Details of an invalid parameter or value.
+ */
+export interface ValueErrorDetails {
+  /**
+   * Name of the offending command parameter, or path of the configuration.
+   */
+  parameter?: string;
+  /**
+   * Values accepted by the parameter, if known from the schema.
+   */
+  valueSpace?: ValueSpace;
+}
+
+function describeValueError(reason: string, details: ValueErrorDetails) {
+  const { parameter, valueSpace } = details;
+  if (parameter && valueSpace) {
+    return `${parameter} must be ${formatValueSpace(valueSpace)}`;
+  }
+  return parameter ? `${parameter}: ${reason}` : reason;
+}
+
+function valueErrorData(reason: string, details: ValueErrorDetails) {
+  const { parameter, valueSpace } = details;
+  if (parameter === undefined && valueSpace === undefined) {
+    return undefined;
+  }
+  const data: ValueErrorDetails & { reason: string } = { reason };
+  if (parameter !== undefined) {
+    data.parameter = parameter;
+  }
+  if (valueSpace !== undefined) {
+    data.valueSpace = valueSpace;
+  }
+  return data;
+}
+
+/**
+ * Base class for errors caused by an invalid parameter or value. The
+ * message names the parameter and the accepted values when known, e.g.
+ * `Level must be 0..100`, while `reason` holds the reason given by the
+ * device.
+ */
+export class ValueError extends XAPIError {
+  public parameter?: string;
+  public valueSpace?: ValueSpace;
+  constructor(
+    code: number,
+    readonly reason: string,
+    details: ValueErrorDetails = {},
+  ) {
+    super(
+      code,
+      describeValueError(reason, details),
+      valueErrorData(reason, details),
+    );
+    Object.setPrototypeOf(this, ValueError.prototype);
+    if (details.parameter !== undefined) {
+      this.parameter = details.parameter;
+    }
+    if (details.valueSpace !== undefined) {
+      this.valueSpace = details.valueSpace;
+    }
+  }
+
+  /**
+   * Attach the value space of the parameter, updating the message.
+   *
+   * @param valueSpace Values accepted by the parameter.
+   * @return Returns self for chaining.
+   */
+  public withValueSpace(valueSpace: ValueSpace) {
+    const details = { parameter: this.parameter, valueSpace };
+    this.valueSpace = valueSpace;
+    this.message = describeValueError(this.reason, details);
+    this.data = valueErrorData(this.reason, details);
+    return this;
+  }
+}
+
+export class IllegalValueError extends ValueError {
+  constructor(reason: string, details?: ValueErrorDetails) {
+    super(ILLEGAL_VALUE, reason, details);
     Object.setPrototypeOf(this, IllegalValueError.prototype);
   }
 }
 
 export class InvalidPathError extends XAPIError {
-  constructor(reason: string, xpath: string) {
-    super(INVALID_PATH, reason, { xpath });
+  constructor(reason: string, xpath?: string) {
+    super(INVALID_PATH, reason, xpath === undefined ? undefined : { xpath });
     Object.setPrototypeOf(this, InvalidPathError.prototype);
   }
 }
 
-export class ParameterError extends XAPIError {
-  constructor() {
-    super(PARAMETER_ERROR, 'Invalid or missing parameters');
+export class ParameterError extends ValueError {
+  constructor(
+    reason = 'Invalid or missing parameters',
+    details?: ValueErrorDetails,
+  ) {
+    super(PARAMETER_ERROR, reason, details);
     Object.setPrototypeOf(this, ParameterError.prototype);
   }
 }
+
+export class MethodNotFoundError extends XAPIError {
+  constructor(reason: string, data?: any) {
+    super(METHOD_NOT_FOUND, reason, data);
+    Object.setPrototypeOf(this, MethodNotFoundError.prototype);
+  }
+}
+
+export class TimeoutError extends XAPIError {
+  constructor(method: string, timeout: number) {
+    super(REQUEST_TIMEOUT, `Request timed out after ${timeout} ms: ${method}`, {
+      method,
+      timeout,
+    });
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+export class AbortError extends XAPIError {
+  constructor(method: string) {
+    super(REQUEST_ABORTED, `Request aborted: ${method}`, { method });
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+export class ConnectionClosedError extends XAPIError {
+  constructor(method: string, path?: (string | number)[]) {
+    super(CONNECTION_CLOSED, `Connection closed before response: ${method}`, {
+      method,
+      path,
+    });
+    Object.setPrototypeOf(this, ConnectionClosedError.prototype);
+  }
+}
+
+export class QueueFullError extends XAPIError {
+  constructor(maxQueued: number) {
+    super(QUEUE_FULL, `Request queue is full (${maxQueued} queued requests)`, {
+      maxQueued,
+    });
+    Object.setPrototypeOf(this, QueueFullError.prototype);
+  }
+}
+
+/**
+ * Get the reason of a value error, which is sent along with the formatted
+ * message.
+ */
+function reasonOf(message: string, data?: any) {
+  return data && typeof data.reason === 'string' ? data.reason : message;
+}
+
+function createError(code: number, message: string, data?: any): XAPIError {
+  switch (code) {
+    case COMMAND_ERROR:
+      return new CommandError(message, data);
+    case ILLEGAL_VALUE:
+      return new IllegalValueError(reasonOf(message, data), data);
+    case INVALID_PATH:
+      return new InvalidPathError(message, data && data.xpath);
+    case PARAMETER_ERROR:
+      return new ParameterError(reasonOf(message, data), data);
+    case METHOD_NOT_FOUND:
+      return new MethodNotFoundError(message, data);
+    default:
+      return new XAPIError(code, message, data);
+  }
+}
+
+/**
+ * Create an {@link XAPIError} (sub class) from a JSON-RPC error response,
+ * e.g. `IllegalValueError` for `ILLEGAL_VALUE` errors. The error carries the
+ * method, path and params of the failed request.
+ *
+ * @param error The `error` member of a JSON-RPC response.
+ * @param context The request the error was received for.
+ * @return Error instance.
+ */
+export function fromErrorResponse(
+  error: { code?: any; message?: any; data?: any },
+  context: ErrorContext = {},
+): XAPIError {
+  const { code, message, data } = error || ({} as any);
+  const result = createError(
+    typeof code === 'number' ? code : UNKNOWN_ERROR,
+    typeof message === 'string' ? message : 'Unknown error',
+    data,
+  );
+  if (context.method !== undefined) {
+    result.method = context.method;
+  }
+  if (context.path !== undefined) {
+    result.path = context.path;
+  }
+  if (context.params !== undefined) {
+    result.params = context.params;
+  }
+  return result;
+}
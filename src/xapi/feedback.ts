@@ -1,10 +1,20 @@
-import { EventEmitter } from 'events';
-
 import log from '../log';
 
 import XAPI from '.';
+import { ConnectionClosedError } from './exc';
 import normalizePath from './normalizePath';
-import { Handler, Listener, Path } from './types';
+import { limitListener } from './limit';
+import { formatPath, isPattern, matchPattern, patternPrefix } from './pattern';
+import ListenerTrie, { isGhost, ListenerKind } from './trie';
+import {
+  FeedbackMetadata,
+  Handler,
+  Listener,
+  ListenerOptions,
+  NormalizedPath,
+  Path,
+  PathMatch,
+} from './types';
 
 /**
  * A function used to inspect and emit feedback data.
@@ -26,12 +36,79 @@ interface FeedbackId {
   Id: number;
 }
 
+/**
+ * A listener attached to a feedback subscription.
+ */
+interface SubscriptionListener {
+  kind: ListenerKind;
+  path: NormalizedPath;
+  trie: ListenerTrie;
+  wrapper: (...args: any[]) => void;
+}
+
+/**
+ * Listener invoked when an array element is removed.
+ */
+export type RemoveListener = (match: PathMatch, root: any) => void;
+
+export { isGhost };
+
+/**
+ * Check if removing the array element at the given path affects a remove
+ * listener path. A path without the element index matches all elements, and
+ * paths below the element are removed along with it.
+ */
+function removes(path: NormalizedPath, element: NormalizedPath) {
+  if (path.length < element.length) {
+    return (
+      path.length === element.length - 1 &&
+      !!matchPattern(path, element.slice(0, -1))
+    );
+  }
+  return !!matchPattern(path.slice(0, element.length), element);
+}
+
+/**
+ * Bookkeeping for a feedback subscription with the backend, shared by all
+ * listeners on the same path or on paths below it.
+ */
+interface Subscription {
+  key: string;
+  query: NormalizedPath;
+  registration: Promise<FeedbackId>;
+  id?: number;
+  listeners: Set<SubscriptionListener>;
+  /**
+   * Settles the registration of a subscription added while reconnecting,
+   * which is registered with the backend by {@link Feedback.resubscribe}.
+   */
+  deferred?: {
+    resolve(id: FeedbackId): void;
+    reject(error: any): void;
+  };
+}
+
+/**
+ * Check if a subscription query covers the given path, i.e. if it is equal
+ * to or a parent of the path.
+ */
+function covers(query: NormalizedPath, path: NormalizedPath) {
+  if (query.length > path.length) {
+    return false;
+  }
+  return query.every(
+    (part, i) => part.toString().toLowerCase() === path[i].toString().toLowerCase(),
+  );
+}
+
 /**
  * Type for a feedback registration request.
  */
 export interface Registration {
   /**
-   * De-register the feedback registration.
+   * De-register the feedback registration. Failures to de-register with the
+   * backend are only logged, see {@link Feedback.unsubscribeAll} to handle
+   * them.
    */
   (): void;
 
@@ -87,34 +164,6 @@ export class FeedbackGroup {
   }
 }
 
-function defaultInterceptor<T>(payload: T, emit: (payload: T) => void) {
-  emit(payload);
-}
-
-function dispatch(
-  feedback: Feedback,
-  data: any,
-  root = data,
-  path: string[] = [],
-) {
-  if (Array.isArray(data)) {
-    data.forEach((child) => {
-      dispatch(feedback, child, root, path);
-      dispatch(feedback, child, root, path.concat(child.id));
-    });
-    return;
-  }
-
-  const emitPath = path.join('/').toLowerCase();
-  feedback.eventEmitter.emit(emitPath, data, root, root.Id);
-
-  if (typeof data === 'object') {
-    Object.keys(data).forEach((key) => {
-      dispatch(feedback, data[key], root, path.concat(key));
-    });
-  }
-}
-
 /**
  * Feedback handler for the XAPI.
  *
@@ -143,6 +192,30 @@ function dispatch(
  * });
  * ```
  *
+ * ### Listen to path patterns
+ *
+ * `*` matches a single path element, such as an array index, and `**`
+ * matches any number of path elements. Pattern listeners also receive the
+ * concrete path and the array indices matched by the wildcards.
+ *
+ * ```typescript
+ * xapi.feedback.on('Status/Call[*]/Status', (callStatus, payload, match) => {
+ *   console.log(`Call ${match.indices[0]} status is: ${callStatus}`);
+ * });
+ *
+ * xapi.feedback.on('Event/UserInterface/Extensions/**', (ev, payload, match) => {
+ *   console.log(`Extensions event on ${match.path}`);
+ * });
+ * ```
+ *
+ * ### Listen to removed array elements
+ *
+ * ```typescript
+ * xapi.feedback.onRemove('Status/Call[*]', ({ indices }) => {
+ *   console.log(`Call ${indices[0]} was removed`);
+ * });
+ * ```
+ *
  * ### Bundle feedback listeners for easy unsubscription
  *
  * ```typescript
@@ -163,58 +236,182 @@ function dispatch(
  * ```
  */
 export default class Feedback {
+  private listeners = new ListenerTrie();
+  private rawListeners = new ListenerTrie();
+  private subscriptions = new Map<string, Subscription>();
+  private sequence = 0;
+  private current = { receivedAt: 0, sequence: 0 };
+  private interceptors: FeedbackInterceptor[];
+  private reconnecting = false;
+
   /**
    * @param xapi XAPI instance.
-   * @param interceptor Feedback interceptor.
+   * @param interceptors Feedback interceptor or chain of interceptors.
+   * @param raw Pass feedback to listeners as reported by the backend, unless
+   *   overridden by the listener options.
    */
-  public readonly eventEmitter = new EventEmitter();
-  constructor(readonly xapi: XAPI, readonly interceptor: FeedbackInterceptor = defaultInterceptor) {}
+  constructor(
+    readonly xapi: XAPI,
+    interceptors: FeedbackInterceptor | FeedbackInterceptor[] = [],
+    private readonly raw = false,
+  ) {
+    this.interceptors = Array.isArray(interceptors)
+      ? interceptors.slice()
+      : [interceptors];
+  }
 
   /**
    * Registers a feedback listener with the backend service which is invoked
    * when there is feedback matching the subscription query.
    *
-   * @param path Path to subscribe to.
+   * Listeners share backend subscriptions: a subscription is only registered
+   * with the backend if no existing subscription covers the path, and it is
+   * de-registered when its last listener is removed.
+   *
+   * The path may contain wildcards, in which case the backend subscription
+   * is registered for the literal part of the path and the listener is
+   * invoked with match information as the third argument.
+   *
+   * Listener options can be used to rate limit or de-duplicate the feedback
+   * received by the listener, without affecting other listeners:
+   *
+   * ```typescript
+   * xapi.feedback.on('Status/Audio/Volume', listener, {
+   *   distinct: true,
+   *   throttle: 1000,
+   * });
+   * ```
+   *
+   * With the `metadata` option the listener receives a
+   * {@link FeedbackMetadata} object as the third argument, holding the
+   * concrete path, array indices, subscription id, receive timestamp and a
+   * sequence number of the feedback payload.
+   *
+   * With the `raw` option the listener receives feedback as reported by the
+   * backend, including attributes and `{ Value }` nodes, without passing
+   * through the feedback interceptors.
+   *
+   * @param path Path or path pattern to subscribe to.
    * @param listener Listener invoked on feedback.
+   * @param options Listener options (throttle, debounce, distinct,
+   *   metadata, raw).
    * @return Feedback cancellation function.
    */
-  public on(path: Path, listener: Listener): Registration {
-    log.info(`new feedback listener on: ${path}`);
-    const eventPath = normalizePath(path)
-      .join('/')
-      .toLowerCase();
-
-    const registration = this.xapi.execute<FeedbackId>('xFeedback/Subscribe', {
-      Query: normalizePath(path),
-    });
+  public on(
+    path: Path,
+    listener: Listener,
+    options?: ListenerOptions,
+  ): Registration {
+    if (options && (options.debounce || options.distinct || options.throttle)) {
+      // Isolate the listener itself as it may be invoked from a timer
+      const formatted = formatPath(normalizePath(path));
+      const limited = limitListener((ev, root, match) => {
+        this.invoke(match ? match.path : formatted, ev, () =>
+          match ? listener(ev, root, match) : listener(ev, root),
+        );
+      }, options);
+      const off = this.on(path, limited.listener, {
+        metadata: options.metadata,
+        raw: options.raw,
+      });
+      const cancel = () => {
+        limited.cancel();
+        off();
+      };
+      cancel.registration = off.registration;
+      return cancel;
+    }
 
-    let wrapper: <T = any>(ev: T, root: any, id?: number) => void;
+    log.info(`new feedback listener on: ${path}`);
+    const normalized = normalizePath(path);
+    const withMetadata = !!options && !!options.metadata;
+    const raw = options && options.raw !== undefined ? options.raw : this.raw;
+    const trie = raw ? this.rawListeners : this.listeners;
+    if (!isPattern(normalized)) {
+      const formatted = formatPath(normalized);
+      return this.addListener(
+        normalized,
+        normalized,
+        'exact',
+        trie,
+        (accepts) => (ev, root, id?: number, concrete?: NormalizedPath) => {
+          if (!accepts(id)) {
+            return;
+          }
+          if (withMetadata) {
+            const metadata = this.metadata(concrete || normalized, id);
+            this.invoke(metadata.path, ev, () => listener(ev, root, metadata));
+          } else {
+            this.invoke(formatted, ev, () => listener(ev, root));
+          }
+        },
+      );
+    }
 
-    const idP = registration.then(({ Id }) => {
-      wrapper = (ev, root, id) => {
-        if (typeof id !== 'undefined' && id !== Id) {
+    const prefix = patternPrefix(normalized);
+    return this.addListener(
+      prefix,
+      prefix,
+      'pattern',
+      trie,
+      (accepts) => (concrete: NormalizedPath, ev, root, id?: number) => {
+        if (!accepts(id)) {
           return;
         }
-        listener(ev, root);
-      };
-      this.eventEmitter.on(eventPath, wrapper);
-      return Id;
-    });
-
-    const off = () => {
-      if (!wrapper) {
-        return;
-      }
-
-      idP.then((Id) => {
-        this.xapi.execute('xFeedback/Unsubscribe', { Id });
-      });
+        const match = matchPattern(normalized, concrete);
+        if (match) {
+          if (isGhost(ev) && typeof concrete[concrete.length - 1] === 'number') {
+            match.removed = true;
+          }
+          const info = withMetadata
+            ? { ...match, ...this.metadata(concrete, id) }
+            : match;
+          this.invoke(match.path, ev, () => listener(ev, root, info));
+        }
+      },
+    );
+  }
 
-      this.eventEmitter.removeListener(eventPath, wrapper);
-    };
+  /**
+   * Registers a listener invoked when array elements are removed, i.e. when
+   * the backend sends a `ghost` entry for the element. The path may address
+   * the elements of an array (`Status/Call`), a specific element
+   * (`Status/Call[42]`), use wildcards (`Status/Call[*]`) or address a path
+   * below the element (`Status/Call[*]/Status`), which is gone along with
+   * the element.
+   *
+   * ```typescript
+   * xapi.feedback.onRemove('Status/Call[*]', ({ indices }) => {
+   *   console.log(`Call ${indices[0]} ended`);
+   * });
+   * ```
+   *
+   * @param path Path or path pattern to subscribe to.
+   * @param listener Listener invoked with the path and indices of the
+   *   removed element.
+   * @return Feedback cancellation function.
+   */
+  public onRemove(path: Path, listener: RemoveListener): Registration {
+    log.info(`new feedback remove listener on: ${path}`);
+    const normalized = normalizePath(path);
 
-    off.registration = registration;
-    return off;
+    const prefix = patternPrefix(normalized);
+    return this.addListener(
+      prefix,
+      prefix,
+      'remove',
+      this.listeners,
+      (accepts) => (element: NormalizedPath, ev, root, id?: number) => {
+        if (accepts(id) && removes(normalized, element)) {
+          const match = {
+            indices: element.filter((p): p is number => typeof p === 'number'),
+            path: formatPath(element),
+            removed: true,
+          };
+          this.invoke(match.path, ev, () => listener(match, root));
+        }
+      },
+    );
   }
 
   /**
@@ -227,11 +424,13 @@ export default class Feedback {
    */
   public once<T = any>(path: Path, listener: Listener): Registration {
     let off: Registration;
-    const wrapped = (ev: T, root: any) => {
+    const wrapped = (ev: T, root: any, match?: PathMatch) => {
       if (typeof off === 'function') {
         off();
       }
-      listener.call(this, ev, root);
+      return match
+        ? listener.call(this, ev, root, match)
+        : listener.call(this, ev, root);
     };
     wrapped.listener = listener;
     off = this.on(path, wrapped);
@@ -249,14 +448,134 @@ export default class Feedback {
     );
   }
 
+  /**
+   * De-registers all active feedback subscriptions with the backend and
+   * removes their listeners.
+   *
+   * @return Resolved when all subscriptions are de-registered, rejected if
+   *   any of them fails to de-register.
+   */
+  public unsubscribeAll() {
+    const removals: Promise<void>[] = [];
+    this.subscriptions.forEach((subscription) => {
+      Array.from(subscription.listeners).forEach((listener) => {
+        removals.push(this.removeListener(subscription, listener));
+      });
+    });
+    return Promise.all(removals).then(() => undefined);
+  }
+
+  /**
+   * Holds back feedback subscription changes while waiting to reconnect.
+   * Listeners added meanwhile are registered by {@link resubscribe}, and
+   * removed listeners are not de-registered with the lost backend.
+   */
+  public suspend() {
+    this.reconnecting = true;
+  }
+
+  /**
+   * Rejects the registrations held back by {@link suspend}, e.g. when giving
+   * up reconnecting.
+   */
+  public cancelSuspended() {
+    this.reconnecting = false;
+    this.subscriptions.forEach((subscription) => {
+      this.cancelDeferred(subscription);
+    });
+  }
+
+  /**
+   * Re-issues all active feedback subscriptions, e.g. after reconnecting to
+   * the backend. Existing listeners keep receiving feedback, and listeners
+   * added while reconnecting are registered.
+   *
+   * @return Resolved when all subscriptions are registered.
+   */
+  public resubscribe() {
+    this.reconnecting = false;
+    const subscriptions = Array.from(this.subscriptions.values());
+    return Promise.all(
+      subscriptions.map((subscription) => {
+        const { deferred } = subscription;
+        subscription.deferred = undefined;
+        subscription.registration = this.xapi.execute<FeedbackId>(
+          'xFeedback/Subscribe',
+          { Query: subscription.query },
+        );
+        if (deferred) {
+          subscription.registration.then(deferred.resolve, deferred.reject);
+        }
+        return subscription.registration.then(({ Id }) => {
+          subscription.id = Id;
+        });
+      }),
+    );
+  }
+
   /**
    * Dispatches feedback data to the registered handlers.
    *
    * @param data JSON data structure of feedback data.
+   * @param raw Feedback as reported by the backend, if `data` is collapsed.
+   * @return Returns self for chaining.
+   */
+  public dispatch(data: any, raw: any = data) {
+    this.sequence += 1;
+    const current = { receivedAt: Date.now(), sequence: this.sequence };
+    this.current = current;
+    this.rawListeners.dispatch(raw);
+
+    // Changes to the chain apply from the next payload
+    const chain = this.interceptors.slice();
+    const run = (index: number, payload: any) => {
+      if (index === chain.length) {
+        // Interceptors may emit after later payloads have arrived
+        this.current = current;
+        this.listeners.dispatch(payload);
+        return;
+      }
+      chain[index](payload, (d = payload) => run(index + 1, d));
+    };
+    run(0, data);
+    return this;
+  }
+
+  /**
+   * Append an interceptor to the chain. Interceptors are invoked in order,
+   * each receiving the payload emitted by the previous one. Feedback is only
+   * dispatched to listeners if every interceptor emits it.
+   *
+   * ```typescript
+   * import { interceptors } from 'jsxapi';
+   *
+   * const remove = xapi.feedback.addInterceptor(
+   *   interceptors.redactPaths(['Status/Call[*]/RemoteNumber']),
+   * );
+   * remove(); // Remove the interceptor again
+   * ```
+   *
+   * @param interceptor Feedback interceptor.
+   * @return Handler to remove the interceptor.
+   */
+  public addInterceptor(interceptor: FeedbackInterceptor): Handler {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.removeInterceptor(interceptor);
+    };
+  }
+
+  /**
+   * Remove an interceptor from the chain.
+   *
+   * @param interceptor Feedback interceptor to remove.
    * @return Returns self for chaining.
    */
-  public dispatch(data: any) {
-    this.interceptor(data, (d = data) => dispatch(this, d));
+  public removeInterceptor(interceptor: FeedbackInterceptor) {
+    const index = this.interceptors.indexOf(interceptor);
+    if (index !== -1) {
+      this.interceptors.splice(index, 1);
+    }
     return this;
   }
 
@@ -294,4 +613,187 @@ export default class Feedback {
   public group(handlers: Handler[]) {
     return new FeedbackGroup(handlers);
   }
+
+  /**
+   * Metadata for the feedback payload currently being dispatched.
+   */
+  private metadata(path: NormalizedPath, id?: number): FeedbackMetadata {
+    return {
+      indices: path.filter((p): p is number => typeof p === 'number'),
+      normalizedPath: path,
+      path: formatPath(path),
+      sequence: this.current.sequence,
+      subscriptionId: id,
+      timestamp: this.current.receivedAt,
+    };
+  }
+
+  /**
+   * Invoke a listener, reporting exceptions and rejected promises as
+   * `listenerError` events on the XAPI instead of interrupting dispatch.
+   * Also used for values delivered outside dispatch, e.g. by `observe`.
+   *
+   * @param path Formatted path the listener is invoked for.
+   * @param payload Value passed to the listener.
+   * @param call Function invoking the listener.
+   */
+  public invoke(path: string, payload: any, call: () => any) {
+    const report = (error: any) => {
+      if (this.xapi.listenerCount('listenerError')) {
+        this.xapi.emit('listenerError', path, payload, error);
+      } else {
+        log.error(`feedback listener on ${path} failed:`, error);
+      }
+    };
+
+    try {
+      const result = call();
+      if (result && typeof result.then === 'function') {
+        result.then(undefined, report);
+      }
+    } catch (error) {
+      report(error);
+    }
+  }
+
+  /**
+   * Attach a listener to a (shared) subscription for the given query.
+   */
+  private addListener(
+    query: NormalizedPath,
+    path: NormalizedPath,
+    kind: ListenerKind,
+    trie: ListenerTrie,
+    createWrapper: (
+      accepts: (id?: number) => boolean,
+    ) => (...args: any[]) => void,
+  ): Registration {
+    const subscription = this.findSubscription(query) || this.subscribe(query);
+    const accepts = (id?: number) =>
+      typeof id === 'undefined' || id === subscription.id;
+
+    const subscriptionListener: SubscriptionListener = {
+      kind,
+      path,
+      trie,
+      wrapper: createWrapper(accepts),
+    };
+    subscription.listeners.add(subscriptionListener);
+    trie.add(path, kind, subscriptionListener.wrapper);
+
+    const off = () => {
+      // Nobody waits for the unsubscribe, e.g. when closing right after
+      const removal = this.removeListener(subscription, subscriptionListener);
+      removal.catch((error) => {
+        log.debug(`feedback de-registration failed: ${formatPath(path)}`, error);
+      });
+    };
+
+    off.registration = subscription.registration;
+    return off;
+  }
+
+  /**
+   * Find an existing subscription covering the given path.
+   */
+  private findSubscription(query: NormalizedPath) {
+    const exact = this.subscriptions.get(query.join('/').toLowerCase());
+    if (exact) {
+      return exact;
+    }
+
+    let parent: Subscription | undefined;
+    this.subscriptions.forEach((subscription) => {
+      if (!parent && covers(subscription.query, query)) {
+        parent = subscription;
+      }
+    });
+    return parent;
+  }
+
+  /**
+   * Register a new subscription with the backend.
+   */
+  private subscribe(query: NormalizedPath): Subscription {
+    const key = query.join('/').toLowerCase();
+    let deferred: Subscription['deferred'];
+    const subscription: Subscription = {
+      key,
+      listeners: new Set(),
+      query,
+      registration: this.reconnecting
+        ? new Promise<FeedbackId>((resolve, reject) => {
+            deferred = { reject, resolve };
+          })
+        : this.xapi.execute<FeedbackId>('xFeedback/Subscribe', {
+            Query: query,
+          }),
+    };
+    subscription.deferred = deferred;
+    this.subscriptions.set(key, subscription);
+
+    subscription.registration.then(
+      ({ Id }) => {
+        subscription.id = Id;
+      },
+      (error) => {
+        log.warn(`feedback registration failed for: ${key}`, error);
+        if (this.subscriptions.get(key) === subscription) {
+          this.subscriptions.delete(key);
+        }
+        subscription.listeners.forEach(({ kind, path, trie, wrapper }) => {
+          trie.remove(path, kind, wrapper);
+        });
+        subscription.listeners.clear();
+      },
+    );
+
+    return subscription;
+  }
+
+  /**
+   * Reject the registration of a subscription added while reconnecting, if
+   * it was never registered with the backend.
+   */
+  private cancelDeferred(subscription: Subscription) {
+    const { deferred } = subscription;
+    if (deferred) {
+      subscription.deferred = undefined;
+      deferred.reject(
+        new ConnectionClosedError('xFeedback/Subscribe', subscription.query),
+      );
+    }
+  }
+
+  /**
+   * Remove a listener from a subscription, de-registering the subscription
+   * with the backend when there are no listeners left.
+   */
+  private removeListener(
+    subscription: Subscription,
+    listener: SubscriptionListener,
+  ): Promise<void> {
+    if (!subscription.listeners.delete(listener)) {
+      return Promise.resolve();
+    }
+
+    listener.trie.remove(listener.path, listener.kind, listener.wrapper);
+    if (subscription.listeners.size) {
+      return Promise.resolve();
+    }
+
+    if (this.subscriptions.get(subscription.key) === subscription) {
+      this.subscriptions.delete(subscription.key);
+    }
+
+    if (this.reconnecting) {
+      // Backend subscriptions are gone with the lost connection
+      this.cancelDeferred(subscription);
+      return Promise.resolve();
+    }
+
+    return subscription.registration
+      .then(({ Id }) => this.xapi.execute('xFeedback/Unsubscribe', { Id }))
+      .then(() => undefined);
+  }
 }
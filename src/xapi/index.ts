@@ -6,21 +6,82 @@ import * as rpc from './rpc';
 
 import { Backend } from '../backend';
 import version from '../version';
+import batch from './batch';
 import { Config, Event, Status } from './components';
-import Feedback from './feedback';
+import {
+  AbortError,
+  CONNECTION_CLOSED,
+  ConnectionClosedError,
+  fromErrorResponse,
+  TimeoutError,
+  XAPIError,
+} from './exc';
+import { coerceFeedback, coerceResults } from './coerce';
+import Feedback, { FeedbackInterceptor } from './feedback';
 import createXapiProxy from './proxy';
-import { Path, XapiError, XapiOptions, XapiResponse } from './types';
+import RequestQueue from './queue';
+import { backoffDelay, resolveReconnectPolicy } from './reconnect';
+import Schema, { describeValueErrors, validateRequests } from './schema';
+import Store from './store';
+import {
+  BatchOperation,
+  BatchOptions,
+  BatchResult,
+  CloseOptions,
+  ConnectionState,
+  Handler,
+  Middleware,
+  NormalizedPath,
+  Path,
+  QueueStats,
+  ReconnectPolicy,
+  RequestOptions,
+  XapiOptions,
+  XapiRequest,
+  XapiResponse,
+} from './types';
 
 interface Requests {
   [idx: string]: {
+    method: string;
+    params?: any;
+    path?: NormalizedPath;
     resolve(result: any): void;
-    reject(result: XapiError): void;
+    reject(error: XAPIError | Error): void;
   };
 }
 
+/**
+ * Extract the XAPI path targeted by a request, if any.
+ */
+function requestPath(method: string, params: any): NormalizedPath | undefined {
+  if (params && Array.isArray(params.Path)) {
+    return params.Path;
+  }
+  if (params && Array.isArray(params.Query)) {
+    return params.Query;
+  }
+  if (method.startsWith('xCommand/')) {
+    return method.split('/').slice(1);
+  }
+  return undefined;
+}
+
 export declare interface XAPI {
   on(event: 'error', listener: (error: Error) => void): this;
-  on(event: 'ready', listener: (xapi: XAPI) => void): this;
+  on(event: 'ready' | 'reconnected', listener: (xapi: XAPI) => void): this;
+  on(
+    event: 'reconnecting',
+    listener: (attempt: number, delay: number, error?: any) => void,
+  ): this;
+  on(
+    event: 'listenerError',
+    listener: (path: string, payload: any, error: any) => void,
+  ): this;
+  on(
+    event: 'stateChange',
+    listener: (state: ConnectionState, previous: ConnectionState) => void,
+  ): this;
   on(event: string, listener: () => void): this;
 }
 
@@ -70,6 +131,53 @@ export declare interface XAPI {
  * xapi.Audio.DefaultVolume.set(100);
  * ```
  *
+ * ### Handle request errors
+ *
+ * Failed requests are rejected with an `XAPIError` sub class matching the
+ * error code, carrying the method, path and params of the request. With the
+ * `schema` option, parameter errors also describe the accepted values, e.g.
+ * `Level must be 0..100`. With the `validate` option, command parameters
+ * and configuration values are checked against the schema before the request
+ * is sent.
+ *
+ * ```typescript
+ * import { IllegalValueError } from 'jsxapi/lib/xapi/exc';
+ *
+ * xapi.config.set('Audio DefaultVolume', 200).catch((error) => {
+ *   if (error instanceof IllegalValueError) {
+ *     console.error(`Invalid value for ${error.path.join(' ')}`);
+ *   }
+ * });
+ * ```
+ *
+ * ### Coerce values
+ *
+ * With the `coerce` option, `get` results and feedback are converted into
+ * JavaScript types according to the schema, e.g. numbers for integer values.
+ * Command responses are not described by the schema and are only converted
+ * with `coerce: { commands: true }`.
+ *
+ * ```typescript
+ * const xapi = new XAPI(backend, {
+ *   coerce: { booleans: [['On', 'Off']] },
+ * });
+ * const volume = await xapi.status.get('Audio Volume'); // => 50, not '50'
+ * ```
+ *
+ * ### Get raw results
+ *
+ * Results and feedback are collapsed by default, e.g. `{ Value: '50' }`
+ * nodes become `'50'` and attributes are lost. The `raw` option, per
+ * instance, request or feedback listener, returns them as reported by the
+ * backend instead.
+ *
+ * ```typescript
+ * const volume = await xapi.status.get('Audio Volume', { raw: true });
+ * // => { Value: '50', valueSpaceRef: '/Valuespace/INT_0_100' }
+ *
+ * xapi.status.on('Audio Volume', (volume) => { ... }, { raw: true });
+ * ```
+ *
  * ### Fetch a status
  *
  * ```typescript
@@ -95,6 +203,18 @@ export declare interface XAPI {
  *   console.log(`Received message text: ${text}`);
  * });
  * ```
+ *
+ * ### Handle listener errors
+ *
+ * Exceptions thrown by feedback listeners, and rejections of promises they
+ * return, do not interrupt feedback delivery to other listeners. They are
+ * emitted as `listenerError` events instead.
+ *
+ * ```typescript
+ * xapi.on('listenerError', (path, payload, error) => {
+ *   console.error(`Feedback listener on ${path} failed`, error);
+ * });
+ * ```
  */
 export class XAPI extends EventEmitter {
   public version: string = version;
@@ -147,13 +267,58 @@ export class XAPI extends EventEmitter {
 
   private requestId = 1;
   private requests: Requests = {};
+  /**
+   * Queue slots of timed out or aborted requests, kept until the backend
+   * answers them or the connection is lost.
+   */
+  private abandoned: { [id: string]: () => void } = {};
+  private requestTimeout?: number;
+  private raw: boolean;
+  private createBackend?: () => Backend;
+  private reconnectPolicy: ReconnectPolicy | null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected = false;
+  private closing = false;
+  private connectionState: ConnectionState = 'connecting';
+  private connectionError: any = null;
+  private drainWaiters: (() => void)[] = [];
+  private middleware: Middleware[] = [];
+  private queue: RequestQueue;
 
   constructor(
-    private readonly backend: Backend,
+    private backend: Backend,
     options: XapiOptions = {}) {
     super();
 
-    this.feedback = new Feedback(this, options.feedbackInterceptor);
+    this.requestTimeout = options.timeout;
+    this.raw = !!options.raw;
+    this.queue = new RequestQueue(options.queue);
+    this.createBackend = options.createBackend;
+    this.reconnectPolicy = options.createBackend
+      ? resolveReconnectPolicy(options.reconnect)
+      : null;
+    const interceptors = ([] as FeedbackInterceptor[]).concat(
+      options.feedbackInterceptor || [],
+    );
+    if (options.schema || options.validate || options.coerce) {
+      const schema = new Schema(
+        this,
+        typeof options.schema === 'object' ? options.schema : undefined,
+      );
+      this.use(describeValueErrors(schema));
+      if (options.validate) {
+        this.use(validateRequests(schema));
+      }
+      if (options.coerce) {
+        const coerceOptions =
+          typeof options.coerce === 'object' ? options.coerce : {};
+        this.use(coerceResults(schema, coerceOptions));
+        // Let interceptors see coerced feedback
+        interceptors.unshift(coerceFeedback(schema, coerceOptions));
+      }
+    }
+    this.feedback = new Feedback(this, interceptors, this.raw);
     this.Command = createXapiProxy(this, this.command);
     this.Config = createXapiProxy(this, this.config);
     this.Event = createXapiProxy(this, this.event);
@@ -174,25 +339,113 @@ export class XAPI extends EventEmitter {
       Object.seal(this);
     }
 
-    backend
-      .on('close', () => {
-        this.emit('close');
-      })
-      .on('error', (error) => {
-        this.emit('error', error);
-      })
-      .on('ready', () => {
-        this.emit('ready', this);
-      })
-      .on('data', this.handleResponse.bind(this));
+    this.attachBackend(backend);
+  }
+
+  /**
+   * Current state of the connection to the backend. A `stateChange` event is
+   * emitted whenever it changes.
+   *
+   * ```typescript
+   * xapi.on('stateChange', (state, previous) => {
+   *   console.log(`connection state changed from ${previous} to ${state}`);
+   * });
+   * ```
+   */
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Request queue metrics: number of requests in flight and waiting to be
+   * sent, see {@link XapiOptions.queue}.
+   */
+  get queueStats(): QueueStats {
+    return this.queue.stats;
+  }
+
+  /**
+   * Wait for the connection to become ready.
+   *
+   * ```typescript
+   * const xapi = await connect('ssh://host.example.com').ready();
+   * ```
+   *
+   * @return Resolved with this XAPI instance when the connection is ready.
+   *   Rejected if the connection is closed or fails before that.
+   */
+  public ready(): Promise<this> {
+    return new Promise((resolve, reject) => {
+      const check = (state: ConnectionState) => {
+        if (state === 'ready') {
+          resolve(this);
+        } else if (state === 'closed') {
+          reject(
+            this.connectionError ||
+              new XAPIError(CONNECTION_CLOSED, 'Connection closed'),
+          );
+        } else {
+          return false;
+        }
+        this.removeListener('stateChange', check);
+        return true;
+      };
+      if (!check(this.state)) {
+        this.on('stateChange', check);
+      }
+    });
   }
 
   /**
    * Close the XAPI connection.
+   *
+   * A graceful close waits for in-flight requests and de-registers all
+   * feedback subscriptions before closing the connection. The timeout limits
+   * how long to wait before closing anyway.
+   *
+   * ```typescript
+   * await xapi.close({ graceful: true, timeout: 5000 });
+   * ```
+   *
+   * @param options Close options.
+   * @return This XAPI instance, or a promise resolved when closed if options
+   *   are given.
    */
-  public close(): XAPI {
-    this.backend.close();
-    return this;
+  public close(): XAPI;
+  public close(options: CloseOptions): Promise<void>;
+  public close(options?: CloseOptions): XAPI | Promise<void> {
+    if (!options) {
+      this.closeBackend();
+      return this;
+    }
+
+    if (!options.graceful || this.state !== 'ready') {
+      this.closeBackend();
+      return Promise.resolve();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const shutdown = this.drain()
+      .then(() => this.feedback.unsubscribeAll())
+      .then(() => this.drain())
+      .catch((error) => {
+        log.warn('error during graceful close:', error);
+      });
+    const timeout = new Promise<void>((resolve) => {
+      if (options.timeout) {
+        timer = setTimeout(() => {
+          log.warn(`graceful close timed out after ${options.timeout} ms`);
+          resolve();
+        }, options.timeout);
+      }
+    });
+
+    return Promise.race([shutdown, timeout]).then(() => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      this.closeBackend();
+    });
   }
 
   /**
@@ -236,9 +489,15 @@ export class XAPI extends EventEmitter {
    * @param path Path to command node.
    * @param params Object containing named command arguments.
    * @param body Multi-line body for commands requiring it.
+   * @param options Request options (timeout, abort signal).
    * @return Resolved with the command response when ready.
    */
-  public command<T = any>(path: Path, params?: object | string, body?: string): Promise<T> {
+  public command<T = any>(
+    path: Path,
+    params?: object | string,
+    body?: string,
+    options?: RequestOptions,
+  ): Promise<T> {
     const apiPath = normalizePath(path).join('/');
     const method = `xCommand/${apiPath}`;
 
@@ -251,20 +510,66 @@ export class XAPI extends EventEmitter {
       executeParams = params;
     }
 
-    return this.execute<T>(method, executeParams);
+    return this.execute<T>(method, executeParams, options);
+  }
+
+  /**
+   * Executes a batch of operations, in order by default. Each operation is a
+   * command, status get, or configuration get/set. Failing operations do not
+   * reject the batch, instead the error is reported in its result.
+   *
+   * ```typescript
+   * const results = await xapi.batch([
+   *   { config: 'Audio DefaultVolume', value: 50 },
+   *   { config: 'SystemUnit Name', value: 'My System' },
+   *   { command: 'Dial', params: { Number: 'user@example.com' } },
+   *   { status: 'Audio Volume' },
+   * ], { stopOnError: true });
+   *
+   * results.forEach(({ status, value, error }) => { ... });
+   * ```
+   *
+   * @param operations Operations to execute.
+   * @param options Batch options (parallelism, stop on error) and request
+   *   options applied to each operation.
+   * @return Resolved with one result per operation, in the same order.
+   */
+  public batch(
+    operations: BatchOperation[],
+    options?: BatchOptions,
+  ): Promise<BatchResult[]> {
+    return batch(this, operations, options);
+  }
+
+  /**
+   * Create a live mirror of parts of the status tree. The store fetches the
+   * current values, applies all subsequent feedback and resyncs after
+   * reconnecting.
+   *
+   * ```typescript
+   * const store = await xapi.store(['Audio', 'Call']).ready();
+   * console.log(store.getSnapshot('Audio Volume'));
+   * ```
+   *
+   * @param paths Status path or list of status paths to mirror.
+   * @return Status store.
+   */
+  public store(paths: string | Path[]): Store {
+    return new Store(this, typeof paths === 'string' ? [paths] : paths);
   }
 
   /**
    * Interface to XAPI documents.
    *
    * @param path Path to xDocument.
+   * @param options Request options (timeout, abort signal).
    * @return xDocument as specified by path.
    */
-  public doc<T = any>(path: Path) {
+  public doc<T = any>(path: Path, options?: RequestOptions) {
     return this.execute<T>('xDoc', {
       Path: normalizePath(path),
       Type: 'Schema',
-    });
+    }, options);
   }
 
   /**
@@ -276,17 +581,163 @@ export class XAPI extends EventEmitter {
    * });
    * ```
    *
+   * The request is rejected with a {@link TimeoutError} if there is no
+   * response within the timeout, or with an {@link AbortError} if the given
+   * signal is aborted.
+   *
+   * ```typescript
+   * const controller = new AbortController();
+   * xapi.execute('xGet', { Path: ['Status', 'Audio', 'Volume'] }, {
+   *   signal: controller.signal,
+   *   timeout: 5000,
+   * });
+   * ```
+   *
+   * The request passes through the middleware pipeline (see {@link use})
+   * before it is sent to the backend.
+   *
    * @param method Name of RPC method to invoke.
    * @param params Parameters to add to the request.
+   * @param options Request options (timeout, abort signal).
    * @typeparam T Return type.
    * @return Resolved with the command response.
    */
-  public execute<T>(method: string, params: any): Promise<T> {
-    return new Promise((resolve, reject) => {
+  public execute<T>(
+    method: string,
+    params: any,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    return new Promise((resolve) => {
       const id = this.nextRequestId();
       const request = rpc.createRequest(id, method, params);
-      this.backend.execute(request);
-      this.requests[id] = { resolve, reject };
+      if (options.raw === undefined ? this.raw : options.raw) {
+        request.raw = true;
+      }
+      const chain = this.middleware.slice();
+
+      const next = (index: number) => (req: XapiRequest): Promise<any> => {
+        if (index >= chain.length) {
+          return this.send(req, options);
+        }
+        return new Promise((res) => {
+          res(chain[index](req, next(index + 1)));
+        });
+      };
+
+      resolve(next(0)(request));
+    });
+  }
+
+  /**
+   * Add a middleware to the outgoing request pipeline. Middlewares are invoked
+   * in the order they are added, each wrapping the ones added after it. The
+   * request is sent to the backend by the last `next()` in the chain.
+   *
+   * A middleware may modify the request before passing it on, inspect or
+   * transform the result, short-circuit the request by returning a value
+   * without calling `next()`, or reject it by throwing.
+   *
+   * ```typescript
+   * xapi.use(async (request, next) => {
+   *   const start = Date.now();
+   *   try {
+   *     return await next(request);
+   *   } finally {
+   *     console.log(`${request.method} took ${Date.now() - start} ms`);
+   *   }
+   * });
+   * ```
+   *
+   * @param middleware Middleware function.
+   * @return Handler to remove the middleware.
+   */
+  public use(middleware: Middleware): Handler {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Send a request to the backend and wait for the response.
+   */
+  private send<T>(request: XapiRequest, options: RequestOptions): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const { id, method, params } = request;
+      const { signal, timeout = this.requestTimeout } = options;
+      if (signal && signal.aborted) {
+        throw new AbortError(method);
+      }
+      if (this.state === 'reconnecting') {
+        throw new ConnectionClosedError(method, requestPath(method, params));
+      }
+      if (!id || {}.hasOwnProperty.call(this.requests, id)) {
+        throw new Error(`Invalid or duplicate request id: ${id}`);
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let started = false;
+      let release = () => {
+        /* noop */
+      };
+      const settle = <A>(fn: (arg: A) => void, keepSlot = false) => (
+        arg: A,
+      ) => {
+        if (keepSlot && started) {
+          // The backend still processes the request
+          this.abandoned[id] = release;
+        } else {
+          release();
+        }
+        if (timer) {
+          clearTimeout(timer);
+        }
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+        delete this.requests[id];
+        if (!Object.keys(this.requests).length) {
+          this.drainWaiters.splice(0).forEach((waiter) => waiter());
+        }
+        fn(arg);
+      };
+
+      const pending = {
+        method,
+        params,
+        path: requestPath(method, params),
+        reject: settle(reject),
+        resolve: settle(resolve),
+      };
+      this.requests[id] = pending;
+      const abandon = settle(reject, true);
+      const onAbort = () => {
+        abandon(new AbortError(method));
+      };
+
+      if (timeout) {
+        timer = setTimeout(() => {
+          abandon(new TimeoutError(method, timeout));
+        }, timeout);
+      }
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+
+      try {
+        release = this.queue.schedule((done) => {
+          // The backend may respond before schedule() returns
+          release = done;
+          started = true;
+          try {
+            this.backend.execute(request);
+          } catch (error) {
+            pending.reject(error);
+          }
+        }, this.queue.priorityOf(method, options.priority));
+      } catch (error) {
+        pending.reject(error);
+      }
     });
   }
 
@@ -294,19 +745,173 @@ export class XAPI extends EventEmitter {
     const { id, method } = response;
     if (method === 'xFeedback/Event') {
       log.debug('feedback:', response);
-      this.feedback.dispatch(response.params);
+      this.feedback.dispatch(response.params, response.rawParams);
+    } else if ({}.hasOwnProperty.call(this.abandoned, id)) {
+      log.debug('response to abandoned request:', response);
+      const release = this.abandoned[id];
+      delete this.abandoned[id];
+      release();
+    } else if (!{}.hasOwnProperty.call(this.requests, id)) {
+      log.debug('ignoring response to unknown request:', response);
+    } else if ({}.hasOwnProperty.call(response, 'result')) {
+      log.debug('result:', response);
+      const { resolve } = this.requests[id];
+      resolve(response.result);
     } else {
-      if ({}.hasOwnProperty.call(response, 'result')) {
-        log.debug('result:', response);
-        const { resolve } = this.requests[id];
-        resolve(response.result);
+      log.debug('error:', response);
+      const request = this.requests[id];
+      request.reject(
+        fromErrorResponse(response.error, {
+          method: request.method,
+          params: request.params,
+          path: request.path,
+        }),
+      );
+    }
+  }
+
+  private closeBackend() {
+    this.closing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+      this.feedback.cancelSuspended();
+      this.setState('closed');
+      this.emit('close');
+    }
+    this.backend.close();
+  }
+
+  /**
+   * Wait for all in-flight requests to complete.
+   */
+  private drain(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!Object.keys(this.requests).length) {
+        resolve();
       } else {
-        log.debug('error:', response);
-        const { reject } = this.requests[id];
-        reject(response.error);
+        this.drainWaiters.push(resolve);
       }
-      delete this.requests[id];
+    });
+  }
+
+  private attachBackend(backend: Backend) {
+    const ifCurrent = <A extends any[]>(fn: (...args: A) => void) =>
+      (...args: A) => {
+        if (backend === this.backend) {
+          fn(...args);
+        }
+      };
+
+    backend
+      .on('close', ifCurrent(() => {
+        this.handleConnectionLost('close');
+      }))
+      .on('error', ifCurrent((error: any) => {
+        this.handleConnectionLost('error', error);
+      }))
+      .on('initializing', ifCurrent(() => {
+        this.setState('initializing');
+      }))
+      .on('ready', ifCurrent(() => {
+        this.handleReady();
+      }))
+      .on('data', ifCurrent(this.handleResponse.bind(this)));
+  }
+
+  private handleReady() {
+    const isReconnect = this.connected;
+    this.connected = true;
+    this.reconnectAttempt = 0;
+
+    if (!isReconnect) {
+      this.setState('ready');
+      this.emit('ready', this);
+      return;
     }
+
+    log.info('reconnected, re-issuing feedback subscriptions');
+    this.feedback.resubscribe().then(
+      () => {
+        this.setState('ready');
+        this.emit('reconnected', this);
+      },
+      (error) => this.handleConnectionLost('error', error),
+    );
+  }
+
+  private handleConnectionLost(event: 'close' | 'error', error?: any) {
+    this.rejectPendingRequests();
+
+    const policy = this.reconnectPolicy;
+    if (
+      this.closing ||
+      !this.connected ||
+      !policy ||
+      this.reconnectAttempt >= policy.maxAttempts
+    ) {
+      if (error !== undefined) {
+        this.connectionError = error;
+      }
+      this.feedback.cancelSuspended();
+      this.setState('closed');
+      if (event === 'error') {
+        this.emit('error', error);
+      } else {
+        this.emit('close');
+      }
+      return;
+    }
+
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    this.backend.close();
+    this.reconnectAttempt += 1;
+    const attempt = this.reconnectAttempt;
+    const delay = backoffDelay(policy, attempt);
+    log.info(`connection lost, reconnect attempt ${attempt} in ${delay} ms`);
+    this.feedback.suspend();
+    this.setState('reconnecting');
+    this.emit('reconnecting', attempt, delay, error);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.setState('connecting');
+      try {
+        this.backend = this.createBackend!();
+      } catch (err) {
+        this.handleConnectionLost('error', err);
+        return;
+      }
+      this.attachBackend(this.backend);
+    }, delay);
+  }
+
+  private setState(state: ConnectionState) {
+    const previous = this.connectionState;
+    if (state === previous) {
+      return;
+    }
+    log.debug(`connection state: ${previous} -> ${state}`);
+    this.connectionState = state;
+    this.emit('stateChange', state, previous);
+  }
+
+  /**
+   * Reject all in-flight requests, e.g. when the connection is lost, and
+   * release the queue slots of abandoned requests.
+   */
+  private rejectPendingRequests() {
+    Object.keys(this.requests).forEach((id) => {
+      const { method, path, reject } = this.requests[id];
+      reject(new ConnectionClosedError(method, path));
+    });
+
+    const abandoned = this.abandoned;
+    this.abandoned = {};
+    Object.keys(abandoned).forEach((id) => abandoned[id]());
   }
 
   private nextRequestId() {
@@ -0,0 +1,240 @@
+import { FeedbackInterceptor, isGhost } from './feedback';
+import normalizePath from './normalizePath';
+import { GLOBSTAR, matchPattern } from './pattern';
+import { NormalizedPath, Path } from './types';
+import { isObject, toIndex } from './utils';
+
+/**
+ * Keys of the feedback payload root that are not part of the XAPI tree.
+ */
+const META_KEYS = ['Id'];
+
+/**
+ * Keys of array elements identifying the element.
+ */
+const ELEMENT_KEYS = ['id', 'ghost'];
+
+type Decision = 'keep' | 'drop' | 'descend';
+
+/**
+ * Path of an array element, using its id as index.
+ */
+function elementPath(path: NormalizedPath, element: any) {
+  if (!isObject(element) || element.id === undefined) {
+    return path;
+  }
+  const { id } = element;
+  return path.concat(toIndex(id));
+}
+
+/**
+ * Check if a pattern matches the path or one of its parents.
+ */
+function covers(pattern: NormalizedPath, path: NormalizedPath) {
+  return !!matchPattern(pattern.concat(GLOBSTAR), path);
+}
+
+/**
+ * Check if the pattern may match a path below the given path.
+ */
+function leadsTo(pattern: NormalizedPath, path: NormalizedPath) {
+  const index = pattern.indexOf(GLOBSTAR);
+  if (index !== -1 && index <= path.length) {
+    return !!matchPattern(pattern.slice(0, index).concat(GLOBSTAR), path);
+  }
+  return (
+    pattern.length > path.length &&
+    !!matchPattern(pattern.slice(0, path.length), path)
+  );
+}
+
+/**
+ * Rebuild the payload, keeping, dropping or descending into each node
+ * according to the given decision function. Returns `undefined` if nothing
+ * is left.
+ */
+function prune(
+  data: any,
+  decide: (path: NormalizedPath) => Decision,
+  path: NormalizedPath = [],
+  keep: string[] = META_KEYS,
+): any {
+  if (Array.isArray(data)) {
+    const elements = data
+      .map((element) => {
+        const child = elementPath(path, element);
+        switch (child === path ? 'descend' : decide(child)) {
+          case 'keep':
+            return element;
+          case 'descend':
+            // Keep removals of elements that may contain matching paths
+            return isGhost(element) || !isObject(element)
+              ? element
+              : prune(element, decide, child, ELEMENT_KEYS);
+          default:
+            return undefined;
+        }
+      })
+      .filter((element) => element !== undefined);
+    return elements.length ? elements : undefined;
+  }
+
+  const result: { [key: string]: any } = {};
+  let hasContent = false;
+  Object.keys(data).forEach((key) => {
+    if (keep.indexOf(key) !== -1) {
+      result[key] = data[key];
+      return;
+    }
+
+    const child = path.concat(key);
+    const decision = decide(child);
+    let value: any;
+    if (decision === 'keep') {
+      value = data[key];
+    } else if (
+      decision === 'descend' &&
+      (isObject(data[key]) || Array.isArray(data[key]))
+    ) {
+      value = prune(data[key], decide, child, []);
+    }
+    if (value !== undefined) {
+      result[key] = value;
+      hasContent = true;
+    }
+  });
+  return hasContent ? result : undefined;
+}
+
+/**
+ * Create an interceptor only letting through feedback on the given paths.
+ * Other parts of the payload are removed, and payloads without any matching
+ * feedback are discarded. Paths may contain wildcards.
+ *
+ * ```typescript
+ * xapi.feedback.addInterceptor(allowPaths(['Status/Audio', 'Event/**']));
+ * ```
+ *
+ * @param paths Paths or path patterns to allow.
+ * @return Feedback interceptor.
+ */
+export function allowPaths(paths: Path[]): FeedbackInterceptor {
+  const patterns = paths.map((path) => normalizePath(path));
+  const decide = (path: NormalizedPath): Decision => {
+    if (patterns.some((pattern) => covers(pattern, path))) {
+      return 'keep';
+    }
+    return patterns.some((pattern) => leadsTo(pattern, path))
+      ? 'descend'
+      : 'drop';
+  };
+
+  return (payload, emit) => {
+    const result = prune(payload, decide);
+    if (result !== undefined) {
+      emit(result);
+    }
+  };
+}
+
+/**
+ * Create an interceptor removing feedback on the given paths. Payloads
+ * without any other feedback are discarded. Paths may contain wildcards.
+ *
+ * ```typescript
+ * xapi.feedback.addInterceptor(denyPaths(['Status/RoomAnalytics']));
+ * ```
+ *
+ * @param paths Paths or path patterns to deny.
+ * @return Feedback interceptor.
+ */
+export function denyPaths(paths: Path[]): FeedbackInterceptor {
+  const patterns = paths.map((path) => normalizePath(path));
+  const decide = (path: NormalizedPath): Decision => {
+    if (patterns.some((pattern) => covers(pattern, path))) {
+      return 'drop';
+    }
+    return patterns.some((pattern) => leadsTo(pattern, path))
+      ? 'descend'
+      : 'keep';
+  };
+
+  return (payload, emit) => {
+    const result = prune(payload, decide);
+    if (result !== undefined) {
+      emit(result);
+    }
+  };
+}
+
+/**
+ * Create an interceptor replacing the values on the given paths, e.g. to
+ * keep sensitive information out of logs. Paths may contain wildcards.
+ *
+ * ```typescript
+ * xapi.feedback.addInterceptor(
+ *   redactPaths(['Status/Call[*]/RemoteNumber']),
+ * );
+ * ```
+ *
+ * @param paths Paths or path patterns to redact.
+ * @param replacement Value to replace redacted values with.
+ * @return Feedback interceptor.
+ */
+export function redactPaths(
+  paths: Path[],
+  replacement: any = '***',
+): FeedbackInterceptor {
+  const patterns = paths.map((path) => normalizePath(path));
+  const redact = (data: any, path: NormalizedPath, keep: string[]): any => {
+    if (Array.isArray(data)) {
+      return data.map((element) =>
+        redact(element, elementPath(path, element), ELEMENT_KEYS),
+      );
+    }
+    if (!isObject(data)) {
+      return data;
+    }
+
+    const result: { [key: string]: any } = {};
+    Object.keys(data).forEach((key) => {
+      const child = path.concat(key);
+      if (keep.indexOf(key) !== -1) {
+        result[key] = data[key];
+      } else if (patterns.some((pattern) => covers(pattern, child))) {
+        result[key] = replacement;
+      } else {
+        result[key] = redact(data[key], child, []);
+      }
+    });
+    return result;
+  };
+
+  return (payload, emit) => {
+    emit(redact(payload, [], META_KEYS));
+  };
+}
+
+/**
+ * Create an interceptor letting through a random sample of the feedback
+ * payloads.
+ *
+ * ```typescript
+ * // Keep about 10% of the feedback
+ * xapi.feedback.addInterceptor(sample(0.1));
+ * ```
+ *
+ * @param rate Fraction (0 - 1) of payloads to let through.
+ * @param random Random number generator, returning numbers in [0, 1).
+ * @return Feedback interceptor.
+ */
+export function sample(
+  rate: number,
+  random: () => number = Math.random,
+): FeedbackInterceptor {
+  return (payload, emit) => {
+    if (random() < rate) {
+      emit(payload);
+    }
+  };
+}
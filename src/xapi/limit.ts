@@ -0,0 +1,132 @@
+import { Listener, ListenerOptions } from './types';
+
+/**
+ * A listener wrapped according to {@link ListenerOptions}.
+ */
+export interface LimitedListener {
+  listener: Listener;
+  /**
+   * Cancel pending invocations.
+   */
+  cancel(): void;
+}
+
+function defaultEquals(a: any, b: any) {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Key of the path a value was received on. Pattern listeners receive the
+ * concrete path as a match, which have their values limited separately.
+ */
+function pathKey(args: any[]): string {
+  const match = args[2];
+  return match ? match.path : '';
+}
+
+/**
+ * Wrap a feedback listener so it only receives values that differ from the
+ * previous value, and at most once per throttle period or after the
+ * debounce period has passed without new values. Values of different paths
+ * matched by a pattern are compared and throttled independently.
+ *
+ * @param listener Listener to wrap.
+ * @param options Listener options.
+ * @return Wrapped listener and a function to cancel pending invocations.
+ */
+export function limitListener(
+  listener: Listener,
+  options: ListenerOptions = {},
+): LimitedListener {
+  const { debounce, distinct, throttle } = options;
+  const cancels: (() => void)[] = [];
+
+  let deliver = (args: any[]) => {
+    listener.apply(undefined, args as any);
+  };
+
+  if (distinct) {
+    const next = deliver;
+    const equals = typeof distinct === 'function' ? distinct : defaultEquals;
+    const previous = new Map<string, any>();
+    deliver = (args) => {
+      const key = pathKey(args);
+      if (previous.has(key) && equals(previous.get(key), args[0])) {
+        return;
+      }
+      previous.set(key, args[0]);
+      next(args);
+    };
+  }
+
+  if (throttle) {
+    const next = deliver;
+    const periods = new Map<
+      string,
+      { timer: ReturnType<typeof setTimeout>; trailing: any[] | null }
+    >();
+    const release = (key: string) => {
+      const period = periods.get(key)!;
+      if (period.trailing) {
+        const args = period.trailing;
+        period.trailing = null;
+        next(args);
+        period.timer = setTimeout(() => release(key), throttle);
+      } else {
+        periods.delete(key);
+      }
+    };
+    deliver = (args) => {
+      const key = pathKey(args);
+      const period = periods.get(key);
+      if (period) {
+        period.trailing = args;
+        return;
+      }
+      next(args);
+      periods.set(key, {
+        timer: setTimeout(() => release(key), throttle),
+        trailing: null,
+      });
+    };
+    cancels.push(() => {
+      periods.forEach(({ timer }) => clearTimeout(timer));
+      periods.clear();
+    });
+  }
+
+  if (debounce) {
+    const next = deliver;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    deliver = (args) => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        next(args);
+      }, debounce);
+    };
+    cancels.push(() => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = null;
+    });
+  }
+
+  return {
+    cancel: () => {
+      cancels.forEach((cancel) => cancel());
+    },
+    listener: (...args: any[]) => {
+      deliver(args);
+    },
+  };
+}
@@ -1,6 +1,22 @@
 import XAPI from '.';
+import log from '../log';
+import { Registration } from './feedback';
 import normalizePath from './normalizePath';
-import { Listener, Path } from './types';
+import {
+  Observable,
+  toAsyncIterator,
+  toObservable,
+  toPromise,
+} from './observable';
+import { formatPath } from './pattern';
+import {
+  Listener,
+  ListenerOptions,
+  Path,
+  Predicate,
+  RequestOptions,
+  WaitOptions,
+} from './types';
 
 /**
  * Mixin for XAPI sections that can trigger feedback.
@@ -14,11 +30,16 @@ export class Listenable<T = any> {
    *
    * @param path Path to XAPI entry.
    * @param listener Callback handler called on changes.
+   * @param options Listener options (throttle, debounce, distinct).
    * @typeparam T Event type.
    * @return Handler to deregister the feedback registration.
    */
-  public on(path: Path, listener: Listener<T>) {
-    return this.xapi.feedback.on(this.normalizePath(path) as any, listener);
+  public on(path: Path, listener: Listener<T>, options?: ListenerOptions) {
+    return this.xapi.feedback.on(
+      this.normalizePath(path) as any,
+      listener,
+      options,
+    );
   }
 
   /**
@@ -34,6 +55,92 @@ export class Listenable<T = any> {
     return this.xapi.feedback.once(this.normalizePath(path) as any, listener);
   }
 
+  /**
+   * Iterate over changes on the given path. The feedback registration is
+   * removed when the iterator returns, e.g. by breaking out of the loop.
+   *
+   * ```typescript
+   * for await (const volume of xapi.status.iterate('Audio Volume')) {
+   *   console.log(volume);
+   * }
+   * ```
+   *
+   * @param path Path to XAPI entry.
+   * @typeparam T Event type.
+   * @return Async iterator of feedback values.
+   */
+  public iterate(path: Path): AsyncIterableIterator<T> {
+    return toAsyncIterator<T>((listener) => this.on(path, listener));
+  }
+
+  /**
+   * Observe changes on the given path. The returned object implements
+   * `Symbol.observable`, so it can be used with libraries like RxJS.
+   *
+   * ```typescript
+   * from(xapi.status.observe('Audio Volume'))
+   *   .pipe(filter((volume) => volume > 50))
+   *   .subscribe((volume) => { console.log(volume); });
+   * ```
+   *
+   * @param path Path to XAPI entry.
+   * @typeparam T Event type.
+   * @return Observable of feedback values.
+   */
+  public observe(path: Path) {
+    return toObservable<T>((listener) => this.on(path, listener));
+  }
+
+  /**
+   * Wait for a change on the given path matching the predicate.
+   *
+   * ```typescript
+   * const status = await xapi.status.waitFor(
+   *   'Call[*]/Status',
+   *   (value) => value === 'Connected',
+   *   { timeout: 30000 },
+   * );
+   * ```
+   *
+   * @param path Path to XAPI entry.
+   * @param predicate Predicate the value must satisfy, any value if omitted.
+   * @param options Wait options (timeout, abort signal).
+   * @typeparam T Event type.
+   * @return Resolved with the matching value. Rejected with a
+   *   {@link TimeoutError} or {@link AbortError} if the wait is cut short.
+   */
+  public waitFor(
+    path: Path,
+    predicate?: Predicate<T>,
+    options?: WaitOptions,
+  ): Promise<T> {
+    const description = `xFeedback/${this.normalizePath(path).join('/')}`;
+    return toPromise<T>(
+      (listener) => this.on(path, listener),
+      description,
+      predicate,
+      options,
+    );
+  }
+
+  /**
+   * Wait for the next change on the given path.
+   *
+   * ```typescript
+   * const response = await xapi.event.next(
+   *   'UserInterface Message Prompt Response',
+   * );
+   * ```
+   *
+   * @param path Path to XAPI entry.
+   * @param options Wait options (timeout, abort signal).
+   * @typeparam T Event type.
+   * @return Resolved with the next value.
+   */
+  public next(path: Path, options?: WaitOptions): Promise<T> {
+    return this.waitFor(path, undefined, options);
+  }
+
   /**
    * De-register the given listener on the given path.
    *
@@ -66,13 +173,14 @@ export class Gettable<T = any> {
    * ```
    *
    * @param path Path to configuration node.
+   * @param options Request options (timeout, abort signal).
    * @typeparam T The return type of the get request.
    * @return Resolved to the configuration value when ready.
    */
-  public get(path: Path): Promise<T> {
+  public get(path: Path, options?: RequestOptions): Promise<T> {
     return this.xapi.execute('xGet', {
       Path: this.normalizePath(path),
-    });
+    }, options);
   }
 }
 
@@ -92,13 +200,121 @@ export class Settable<T = number | string> {
    *
    * @param path Path to status node.
    * @param value Configuration value.
+   * @param options Request options (timeout, abort signal).
    * @return Resolved to the status value when ready.
    */
-  public set(path: Path, value: T) {
+  public set(path: Path, value: T, options?: RequestOptions) {
     return this.xapi.execute('xSet', {
       Path: this.normalizePath(path),
       Value: value,
+    }, options);
+  }
+}
+
+/**
+ * Mixin for XAPI sections where feedback can be combined with the current
+ * value. Must be applied after {@link Listenable} and {@link Gettable}.
+ */
+export class Watchable<T = any> {
+  public xapi!: XAPI;
+  public normalizePath!: typeof normalizePath;
+  public on!: (path: Path, listener: Listener<T>) => Registration;
+  public get!: (path: Path, options?: RequestOptions) => Promise<T>;
+
+  /**
+   * Observe changes on the given path. See {@link Listenable.observe}.
+   *
+   * @param path Path to XAPI entry.
+   * @typeparam T Event type.
+   * @return Observable of feedback values.
+   */
+  public observe(path: Path): Observable<T>;
+
+  /**
+   * Observe the current value and subsequent changes on the given path.
+   *
+   * The feedback subscription is registered before the current value is
+   * fetched, so no changes are lost. The listener is first invoked with the
+   * current value and then with each change in order. Feedback received
+   * while the current value is fetched may be newer than it, so the latest
+   * of it is delivered right after the current value.
+   *
+   * ```typescript
+   * xapi.status.observe('Audio Volume', (volume) => {
+   *   console.log(`Volume is: ${volume}`);
+   * });
+   * ```
+   *
+   * @param path Path to XAPI entry.
+   * @param listener Callback handler called with the current value and on
+   *   changes.
+   * @typeparam T Event type.
+   * @return Handler to deregister the feedback registration.
+   */
+  public observe(path: Path, listener: Listener<T>): Registration;
+
+  public observe(path: Path, listener?: Listener<T>) {
+    if (!listener) {
+      return toObservable<T>((l) => this.on(path, l));
+    }
+
+    let fetching = false;
+    let initialized = false;
+    let active = true;
+    let pending: { root: any; value: T } | undefined;
+    const off = this.on(path, (value, root) => {
+      if (!active) {
+        return;
+      }
+      if (initialized) {
+        listener(value, root);
+      } else if (fetching) {
+        pending = { root, value };
+      }
     });
+
+    // Values delivered here are isolated like feedback from dispatch
+    const formatted = formatPath(this.normalizePath(path) as any);
+    const deliver = (value: T, root: any) => {
+      this.xapi.feedback.invoke(formatted, value, () => listener(value, root));
+    };
+
+    const initialize = (current?: { value: T }) => {
+      initialized = true;
+      if (!active) {
+        return;
+      }
+      if (current) {
+        deliver(current.value, undefined);
+      }
+      if (pending && (!current || pending.value !== current.value)) {
+        deliver(pending.value, pending.root);
+      }
+      pending = undefined;
+    };
+
+    off.registration
+      .then(() => {
+        fetching = true;
+        return this.get(path);
+      })
+      .then(
+        (value) => initialize({ value }),
+        (error) => {
+          log.warn(`failed to fetch current value of: ${path}`, error);
+          initialize();
+        },
+      )
+      .catch((error) => {
+        log.error(`failed to initialize observer of: ${path}`, error);
+      });
+
+    const handler = () => {
+      active = false;
+      off();
+    };
+    handler.registration = off.registration;
+    return handler;
   }
 }
 
@@ -3,13 +3,14 @@ import { NormalizedPath, Path } from './types';
 /**
  * Normalizes a path by turning it into an Array of strings.
  * Removes empty parts of the path and ignores redundant whitespace or
- * slashes. Each path element is also capitalized.
+ * slashes. Each path element is also capitalized. Wildcards (`*` and `**`)
+ * are kept as separate path elements.
  *
  * @param path Array or string path to normalize.
  * @return Array of path segments.
  */
 export default function normalizePath(path: Path): NormalizedPath {
-  const split = Array.isArray(path) ? path : path.match(/(\w+)/g);
+  const split = Array.isArray(path) ? path : path.match(/(\w+|\*\*|\*)/g);
   return !split
     ? []
     : split.map((element) => {
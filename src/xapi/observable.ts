@@ -0,0 +1,245 @@
+import { AbortError, TimeoutError } from './exc';
+import { Registration } from './feedback';
+import { Listener, Predicate, WaitOptions } from './types';
+
+/**
+ * Function registering a feedback listener, such as `xapi.feedback.on`
+ * bound to a path.
+ */
+export type Subscribe<T> = (listener: Listener<T>) => Registration;
+
+/**
+ * Observer receiving values from an {@link Observable}.
+ */
+export interface Observer<T> {
+  next(value: T): void;
+  error(error: any): void;
+  complete(): void;
+}
+
+/**
+ * Handle returned when subscribing to an {@link Observable}.
+ */
+export interface Unsubscribable {
+  unsubscribe(): void;
+}
+
+/**
+ * Minimal Observable compatible with the TC39 proposal and libraries like
+ * RxJS through `Symbol.observable`.
+ */
+export interface Observable<T> {
+  subscribe(
+    observer?: Partial<Observer<T>> | ((value: T) => void),
+  ): Unsubscribable;
+}
+
+/**
+ * The interop key used by Observable implementations. Falls back to the
+ * `@@observable` string when `Symbol.observable` is not polyfilled.
+ */
+const observableKey: string | symbol =
+  (typeof Symbol === 'function' && (Symbol as any).observable) ||
+  '@@observable';
+
+/**
+ * Create an async iterator yielding feedback values. Values arriving while
+ * the consumer is busy are buffered. Calling `return()`, e.g. by breaking
+ * out of a `for await` loop, de-registers the feedback listener.
+ *
+ * @param subscribe Function registering the feedback listener.
+ * @return Async iterator of feedback values.
+ */
+export function toAsyncIterator<T>(
+  subscribe: Subscribe<T>,
+): AsyncIterableIterator<T> {
+  const values: T[] = [];
+  const pending: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: any) => void;
+  }[] = [];
+  let done = false;
+  let failure: { error: any } | null = null;
+
+  const off = subscribe((value) => {
+    if (done) {
+      return;
+    }
+    const next = pending.shift();
+    if (next) {
+      next.resolve({ done: false, value });
+    } else {
+      values.push(value);
+    }
+  });
+
+  off.registration.catch((error) => {
+    if (done) {
+      return;
+    }
+    failure = { error };
+    pending.splice(0).forEach(({ reject }) => reject(error));
+  });
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    if (!done) {
+      done = true;
+      values.splice(0);
+      off();
+      pending.splice(0).forEach(({ resolve }) => {
+        resolve({ done: true, value: undefined });
+      });
+    }
+    return Promise.resolve<IteratorResult<T>>({ done: true, value: undefined });
+  };
+
+  return {
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+
+    next(): Promise<IteratorResult<T>> {
+      if (values.length) {
+        return Promise.resolve({ done: false, value: values.shift()! });
+      }
+      if (failure) {
+        return Promise.reject(failure.error);
+      }
+      if (done) {
+        return Promise.resolve<IteratorResult<T>>({
+          done: true,
+          value: undefined,
+        });
+      }
+      return new Promise((resolve, reject) => {
+        pending.push({ reject, resolve });
+      });
+    },
+
+    return: finish,
+  };
+}
+
+/**
+ * Create an Observable of feedback values. Each subscription registers its
+ * own feedback listener, which is de-registered on `unsubscribe()`.
+ *
+ * @param subscribe Function registering the feedback listener.
+ * @return Observable of feedback values.
+ */
+export function toObservable<T>(subscribe: Subscribe<T>): Observable<T> {
+  const observable: Observable<T> = {
+    [observableKey](): Observable<T> {
+      return observable;
+    },
+
+    subscribe(observer?: Partial<Observer<T>> | ((value: T) => void)) {
+      const { next, error } =
+        typeof observer === 'function'
+          ? { error: undefined, next: observer }
+          : observer || {};
+      let closed = false;
+
+      const off = subscribe((value) => {
+        if (!closed && next) {
+          next.call(observer, value);
+        }
+      });
+
+      off.registration.catch((err) => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        if (error) {
+          error.call(observer, err);
+        }
+      });
+
+      return {
+        unsubscribe() {
+          if (!closed) {
+            closed = true;
+            off();
+          }
+        },
+      };
+    },
+  };
+
+  return observable;
+}
+
+/**
+ * Create a promise resolved with the first feedback value matching the
+ * predicate. The feedback listener is always de-registered when the promise
+ * settles.
+ *
+ * @param subscribe Function registering the feedback listener.
+ * @param description Description of the feedback used in errors.
+ * @param predicate Predicate the feedback value must satisfy.
+ * @param options Wait options (timeout, abort signal).
+ * @return Resolved with the matching feedback value. Rejected with a
+ *   {@link TimeoutError} or {@link AbortError} if no matching value arrives.
+ */
+export function toPromise<T>(
+  subscribe: Subscribe<T>,
+  description: string,
+  predicate: Predicate<T> = () => true,
+  options: WaitOptions = {},
+): Promise<T> {
+  const { signal, timeout } = options;
+  if (signal && signal.aborted) {
+    return Promise.reject(new AbortError(description));
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const settle = (fn: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      off();
+      if (timer) {
+        clearTimeout(timer);
+      }
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      fn();
+    };
+
+    const onAbort = () => {
+      settle(() => reject(new AbortError(description)));
+    };
+
+    const off = subscribe((value, root, match) => {
+      let matches: boolean;
+      try {
+        matches = predicate(value, root, match);
+      } catch (error) {
+        settle(() => reject(error));
+        return;
+      }
+      if (matches) {
+        settle(() => resolve(value));
+      }
+    });
+
+    off.registration.catch((error) => {
+      settle(() => reject(error));
+    });
+
+    if (timeout) {
+      timer = setTimeout(() => {
+        settle(() => reject(new TimeoutError(description, timeout)));
+      }, timeout);
+    }
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
+    }
+  });
+}
@@ -0,0 +1,107 @@
+import { NormalizedPath, PathMatch } from './types';
+
+/**
+ * Path element matching exactly one path element.
+ */
+export const WILDCARD = '*';
+
+/**
+ * Path element matching zero or more path elements.
+ */
+export const GLOBSTAR = '**';
+
+/**
+ * Check if a normalized path contains wildcard elements.
+ *
+ * @param path Normalized path.
+ * @return True if the path is a pattern.
+ */
+export function isPattern(path: NormalizedPath) {
+  return path.some((part) => part === WILDCARD || part === GLOBSTAR);
+}
+
+/**
+ * Get the literal part of a pattern, i.e. the elements up to the first
+ * wildcard.
+ *
+ * @param pattern Normalized path pattern.
+ * @return Normalized path without wildcards.
+ */
+export function patternPrefix(pattern: NormalizedPath): NormalizedPath {
+  const index = pattern.findIndex(
+    (part) => part === WILDCARD || part === GLOBSTAR,
+  );
+  return index === -1 ? pattern : pattern.slice(0, index);
+}
+
+/**
+ * Format a concrete path using the bracket notation for array indices,
+ * e.g. `Status/Call[42]/Status`.
+ *
+ * @param path Normalized path.
+ * @return Path string.
+ */
+export function formatPath(path: NormalizedPath) {
+  return path.reduce<string>((formatted, part) => {
+    if (typeof part === 'number') {
+      return `${formatted}[${part}]`;
+    }
+    return formatted ? `${formatted}/${part}` : part;
+  }, '');
+}
+
+function equals(a: string | number, b: string | number) {
+  return a.toString().toLowerCase() === b.toString().toLowerCase();
+}
+
+function match(
+  pattern: NormalizedPath,
+  path: NormalizedPath,
+  captures: (string | number)[],
+): (string | number)[] | null {
+  if (!pattern.length) {
+    return path.length ? null : captures;
+  }
+
+  const [head, ...rest] = pattern;
+  if (head === GLOBSTAR) {
+    for (let i = 0; i <= path.length; i += 1) {
+      const result = match(rest, path.slice(i), captures.concat(path.slice(0, i)));
+      if (result) {
+        return result;
+      }
+    }
+    return null;
+  }
+
+  if (!path.length) {
+    return null;
+  }
+  if (head === WILDCARD) {
+    return match(rest, path.slice(1), captures.concat(path[0]));
+  }
+  return equals(head, path[0]) ? match(rest, path.slice(1), captures) : null;
+}
+
+/**
+ * Match a concrete path against a pattern. Path elements are compared case
+ * insensitively. `*` matches a single path element, such as an array index,
+ * while `**` matches any number of path elements.
+ *
+ * @param pattern Normalized path pattern.
+ * @param path Concrete normalized path.
+ * @return Match information or `null` if the path does not match.
+ */
+export function matchPattern(
+  pattern: NormalizedPath,
+  path: NormalizedPath,
+): PathMatch | null {
+  const captures = match(pattern, path, []);
+  if (!captures) {
+    return null;
+  }
+  return {
+    indices: captures.filter((part): part is number => typeof part === 'number'),
+    path: formatPath(path),
+  };
+}
@@ -1,7 +1,16 @@
 // Proxy types inspired by:
 // https://www.typescriptlang.org/docs/handbook/advanced-types.html
 
-const ACTIONS = ['get', 'set', 'on', 'once'];
+const ACTIONS = [
+  'get',
+  'set',
+  'on',
+  'once',
+  'iterate',
+  'observe',
+  'waitFor',
+  'next',
+];
 
 export default function createProxy(thisArg: any, root: any, path: string[] = []): any {
   const handlers = {
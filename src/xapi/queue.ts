@@ -0,0 +1,119 @@
+import log from '../log';
+import { QueueFullError } from './exc';
+import { QueueOptions, QueueStats } from './types';
+
+export const defaultQueueOptions: QueueOptions = {
+  feedbackPriority: 0,
+  maxInFlight: Infinity,
+  maxQueued: Infinity,
+};
+
+interface QueueEntry {
+  done: boolean;
+  priority: number;
+  release: () => void;
+  started: boolean;
+  run(release: () => void): void;
+}
+
+/**
+ * Limits the number of concurrent requests sent to the backend. Requests
+ * exceeding the limit are queued and started in order of priority, then in
+ * the order they were scheduled.
+ */
+export default class RequestQueue {
+  private readonly options: QueueOptions;
+  private queued: QueueEntry[] = [];
+  private inFlight = 0;
+
+  constructor(options: Partial<QueueOptions> = {}) {
+    this.options = { ...defaultQueueOptions, ...options };
+  }
+
+  /**
+   * Current queue depth and number of in-flight requests.
+   */
+  get stats(): QueueStats {
+    const { maxInFlight, maxQueued } = this.options;
+    return {
+      inFlight: this.inFlight,
+      maxInFlight,
+      maxQueued,
+      queued: this.queued.length,
+    };
+  }
+
+  /**
+   * Resolve the priority of a request.
+   *
+   * @param method JSON-RPC method of the request.
+   * @param priority Explicit priority of the request, if any.
+   * @return Priority of the request. Higher values are started first.
+   */
+  public priorityOf(method: string, priority?: number) {
+    if (typeof priority === 'number') {
+      return priority;
+    }
+    return method.startsWith('xFeedback/') ? this.options.feedbackPriority : 0;
+  }
+
+  /**
+   * Schedule a request to be started when there is capacity.
+   *
+   * The request may complete while it is started, i.e. before `schedule()`
+   * returns, so `run` is passed the same release function as is returned.
+   *
+   * @param run Function starting the request.
+   * @param priority Priority of the request.
+   * @return Function to call when the request is completed or cancelled.
+   */
+  public schedule(run: (release: () => void) => void, priority: number = 0) {
+    const { maxInFlight, maxQueued } = this.options;
+    if (this.inFlight >= maxInFlight && this.queued.length >= maxQueued) {
+      throw new QueueFullError(maxQueued);
+    }
+
+    const entry: QueueEntry = {
+      done: false,
+      priority,
+      release: () => {
+        if (entry.done) {
+          return;
+        }
+        entry.done = true;
+        if (entry.started) {
+          this.inFlight -= 1;
+          this.flush();
+        } else {
+          this.queued = this.queued.filter((e) => e !== entry);
+        }
+      },
+      run,
+      started: false,
+    };
+    const index = this.queued.findIndex((e) => e.priority < priority);
+    if (index === -1) {
+      this.queued.push(entry);
+    } else {
+      this.queued.splice(index, 0, entry);
+    }
+    this.flush();
+
+    return entry.release;
+  }
+
+  private flush() {
+    while (this.inFlight < this.options.maxInFlight && this.queued.length) {
+      const entry = this.queued.shift()!;
+      entry.started = true;
+      this.inFlight += 1;
+      try {
+        entry.run(entry.release);
+      } catch (error) {
+        // Do not unwind into the request that released the slot
+        log.error('queue: failed to start request', error);
+        entry.release();
+      }
+    }
+  }
+}
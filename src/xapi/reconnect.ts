@@ -0,0 +1,49 @@
+import { ReconnectPolicy } from './types';
+
+export const defaultReconnectPolicy: ReconnectPolicy = {
+  factor: 2,
+  initialDelay: 1000,
+  jitter: 0.2,
+  maxAttempts: Infinity,
+  maxDelay: 30000,
+};
+
+/**
+ * Resolve reconnect options into a complete policy.
+ *
+ * @param options Reconnect options, `true` for the default policy.
+ * @return Reconnect policy or `null` if reconnecting is disabled.
+ */
+export function resolveReconnectPolicy(
+  options?: boolean | Partial<ReconnectPolicy>,
+): ReconnectPolicy | null {
+  if (!options) {
+    return null;
+  }
+  return {
+    ...defaultReconnectPolicy,
+    ...(typeof options === 'object' ? options : {}),
+  };
+}
+
+/**
+ * Calculate the delay before a reconnect attempt using exponential backoff.
+ *
+ * @param policy Reconnect policy.
+ * @param attempt Attempt number, starting at 1.
+ * @param random Random number generator in the range [0, 1).
+ * @return Delay in milliseconds.
+ */
+export function backoffDelay(
+  policy: ReconnectPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+) {
+  const { factor, initialDelay, jitter, maxDelay } = policy;
+  const delay = Math.min(
+    maxDelay,
+    initialDelay * Math.pow(factor, attempt - 1),
+  );
+  const spread = delay * jitter * (2 * random() - 1);
+  return Math.max(0, Math.round(delay + spread));
+}
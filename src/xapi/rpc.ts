@@ -95,6 +95,25 @@ export function parseFeedbackResponse(response: any) {
   return collapse(response);
 }
 
+/**
+ * Create a parameter error from the body of a `ParameterError` response,
+ * which holds the reason keyed by the name of the offending parameter.
+ */
+function createParameterError(body: any) {
+  const { Error, Reason } = body;
+  const parameter = Object.keys(body).find(
+    (key) =>
+      ['Error', 'Reason', 'status'].indexOf(key) === -1 &&
+      typeof body[key] === 'string',
+  );
+  const reason = Error || Reason || (parameter && body[parameter]);
+
+  if (!parameter) {
+    return new ParameterError(reason || undefined);
+  }
+  return new ParameterError(reason || 'Invalid value', { parameter });
+}
+
 function assertResponseSuccess(response: any): any  {
   const keys = Object.keys(response).filter((k) => k !== 'ResultId');
   if (keys.length > 1) {
@@ -126,7 +145,7 @@ function assertResponseSuccess(response: any): any  {
       throw new XAPIError(UNKNOWN_ERROR, reason, body);
     }
     case 'ParameterError':
-      throw new ParameterError();
+      throw createParameterError(collapse(root));
     case 'OK':
       return root;
     default:
@@ -148,8 +167,11 @@ function assertValidCommandResponse(response: any) {
   return assertResponseSuccess(response);
 }
 
-export function createCommandResponse(response: any) {
+export function createCommandResponse(response: any, raw = false) {
   const root = assertValidCommandResponse(response);
+  if (raw) {
+    return root;
+  }
   const collapsed = collapse(root);
   return Object.keys(collapsed).length ? collapsed : null;
 }
@@ -195,7 +217,8 @@ export function createGetResponse(request: any, response: any) {
     assertResponseSuccess(response);
   }
 
-  return digObj(request.params.Path, collapse(response));
+  const result = request.raw ? response : collapse(response);
+  return digObj(request.params.Path, result);
 }
 
 export function createSetResponse(request: any, response: any) {
@@ -208,7 +231,9 @@ export function createSetResponse(request: any, response: any) {
   if (Object.keys(response).length > 1) {
     const leaf = digObj(request.params.Path, response);
     if (leaf.error === 'True') {
-      throw new IllegalValueError(leaf.Value);
+      throw new IllegalValueError(leaf.Value, {
+        parameter: request.params.Path.join('/'),
+      });
     }
   }
   return null;
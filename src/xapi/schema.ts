@@ -0,0 +1,281 @@
+import XAPI from '.';
+import log from '../log';
+import {
+  IllegalValueError,
+  InvalidPathError,
+  ParameterError,
+  ValueError,
+} from './exc';
+import { Middleware, NormalizedPath, ValueSpace, XapiRequest } from './types';
+import { findKey } from './utils';
+import { parseValueSpace, validateValue } from './valuespace';
+
+/**
+ * Schema nodes of indexed configurations are arrays with one element.
+ */
+function unwrap(node: any) {
+  return Array.isArray(node) ? node[0] : node;
+}
+
+/**
+ * Find the node at the given path of a schema node. Array indices in the
+ * path are ignored, as all elements share the same schema.
+ *
+ * @param document Schema node to search.
+ * @param path Path relative to the schema node.
+ * @return The schema node, `undefined` if not found.
+ */
+export function dig(document: any, path: NormalizedPath) {
+  const parts = path.filter((part) => typeof part !== 'number');
+  return parts.reduce((parent, part) => {
+    const node = unwrap(parent);
+    const key =
+      node && typeof node === 'object' ? findKey(node, part) : undefined;
+    return key === undefined ? undefined : node[key];
+  }, document);
+}
+
+/**
+ * Schema keys starting with a lower case letter are attributes, not child
+ * nodes (e.g. command parameters).
+ */
+export function isAttr(key: string) {
+  return /^[a-z]/.test(key);
+}
+
+/**
+ * Value space of a command parameter, configuration or status node,
+ * including whether the parameter is required.
+ *
+ * @param node Schema node.
+ * @return Value space, `undefined` if the node is not a leaf.
+ */
+export function leafValueSpace(node: any): ValueSpace | undefined {
+  const leaf = unwrap(node);
+  const valueSpace = leaf ? parseValueSpace(leaf.ValueSpace) : undefined;
+  if (valueSpace && leaf.required !== undefined) {
+    valueSpace.required = leaf.required === 'True' || leaf.required === true;
+  }
+  return valueSpace;
+}
+
+/**
+ * Lazily fetched and cached device schema (xDoc), used to look up the value
+ * spaces of command parameters and configurations. A schema document, such
+ * as the one fetched by the schema generator, can be given instead of
+ * fetching the schema from the device.
+ *
+ * ```typescript
+ * const schema = new Schema(xapi);
+ * const valueSpace = await schema.valueSpace([
+ *   'Command', 'Audio', 'Volume', 'Set', 'Level',
+ * ]);
+ * // => { type: 'Integer', min: 0, max: 100, required: true }
+ * ```
+ */
+export default class Schema {
+  private nodes = new Map<string, Promise<any>>();
+
+  /**
+   * @param xapi XAPI instance used to fetch the schema.
+   * @param document Schema document with the `Command` and `Configuration`
+   *   schemas. The schema is fetched from the device if not given.
+   */
+  constructor(
+    private readonly xapi: XAPI,
+    private readonly document?: { [root: string]: any },
+  ) {}
+
+  /**
+   * Fetch the schema node at the given path. Array indices in the path are
+   * ignored, as all elements share the same schema.
+   *
+   * @param path Schema path, e.g. `['Configuration', 'Audio']`.
+   * @return Resolved with the schema node.
+   */
+  public node(path: NormalizedPath): Promise<any> {
+    const parts = path.filter((part) => typeof part !== 'number');
+    const key = parts.join('/');
+    if (this.document) {
+      // Schema documents hold the status schema as `StatusSchema`
+      const document = this.document;
+      const root =
+        parts.length && findKey(document, parts[0]) === undefined
+          ? findKey(document, `${parts[0]}Schema`)
+          : undefined;
+      const found = dig(
+        document,
+        root === undefined ? parts : [root, ...parts.slice(1)],
+      );
+      return found === undefined
+        ? Promise.reject(new InvalidPathError('No match on Path argument', key))
+        : Promise.resolve(found);
+    }
+
+    const cacheKey = key.toLowerCase();
+    let node = this.nodes.get(cacheKey);
+    if (!node) {
+      node = this.xapi.doc(parts as string[]);
+      this.nodes.set(cacheKey, node);
+      node.catch((error) => {
+        log.debug(`schema: failed to fetch ${key}`, error);
+        if (this.nodes.get(cacheKey) === node) {
+          this.nodes.delete(cacheKey);
+        }
+      });
+    }
+    return node;
+  }
+
+  /**
+   * Look up the value space of a command parameter or configuration. The
+   * parent node is fetched and cached, so looking up other parameters of the
+   * same command does not require more requests.
+   *
+   * @param path Path of the command parameter or configuration.
+   * @return Resolved with the value space, or `undefined` if not available.
+   */
+  public valueSpace(path: NormalizedPath): Promise<ValueSpace | undefined> {
+    const parts = path.filter((part) => typeof part !== 'number');
+    const name = parts[parts.length - 1];
+    return this.node(parts.slice(0, -1)).then(
+      (parent) => {
+        const node = unwrap(parent);
+        const key = node && typeof node === 'object' && findKey(node, name);
+        return key ? leafValueSpace(node[key]) : undefined;
+      },
+      () => undefined,
+    );
+  }
+
+  /**
+   * Forget all fetched schema nodes, e.g. after a software upgrade.
+   */
+  public clear() {
+    this.nodes.clear();
+  }
+}
+
+/**
+ * Path of the command parameter or configuration a value error refers to.
+ */
+function valuePath(request: XapiRequest, error: ValueError) {
+  const { method, params } = request;
+  if (method === 'xSet' && params && Array.isArray(params.Path)) {
+    return params.Path as NormalizedPath;
+  }
+  if (method.startsWith('xCommand/') && error.parameter) {
+    return ['Command', ...method.split('/').slice(1), error.parameter];
+  }
+  return undefined;
+}
+
+/**
+ * Create a middleware attaching the value space of the offending parameter
+ * to `ParameterError` and `IllegalValueError` rejections, so the message
+ * describes the accepted values, e.g. `Level must be 0..100`.
+ *
+ * @param schema Schema to look up value spaces in.
+ * @return Request middleware.
+ */
+export function describeValueErrors(schema: Schema): Middleware {
+  return (request, next) =>
+    next(request).catch((error) => {
+      const path =
+        error instanceof ValueError && !error.valueSpace
+          ? valuePath(request, error)
+          : undefined;
+      if (!path) {
+        throw error;
+      }
+      return schema.valueSpace(path).then((valueSpace) => {
+        throw valueSpace ? error.withValueSpace(valueSpace) : error;
+      });
+    });
+}
+
+/**
+ * Check command parameters against the command schema, throwing a
+ * `ParameterError` for unknown, missing or invalid parameters.
+ */
+function validateParams(node: any, params: any) {
+  const command = unwrap(node);
+  if (!command || typeof command !== 'object' || command.command !== 'True') {
+    return;
+  }
+
+  const given = params || {};
+  Object.keys(given).forEach((name) => {
+    if (name === 'body') {
+      return;
+    }
+    const key = findKey(command, name);
+    if (key === undefined || isAttr(key)) {
+      throw new ParameterError('Unknown parameter', { parameter: name });
+    }
+    const valueSpace = leafValueSpace(command[key]);
+    const reason = valueSpace && validateValue(valueSpace, given[name]);
+    if (reason) {
+      throw new ParameterError(reason, { parameter: key, valueSpace });
+    }
+  });
+
+  Object.keys(command)
+    .filter((key) => !isAttr(key) && findKey(given, key) === undefined)
+    .forEach((key) => {
+      const valueSpace = leafValueSpace(command[key]);
+      if (valueSpace && valueSpace.required) {
+        throw new ParameterError('Missing required parameter', {
+          parameter: key,
+        });
+      }
+    });
+}
+
+/**
+ * Check a request against the schema. Requests for commands and
+ * configurations not found in the schema are passed on to the device.
+ */
+function validateRequest(
+  schema: Schema,
+  request: XapiRequest,
+): Promise<void> {
+  const { method, params } = request;
+  if (method.startsWith('xCommand/')) {
+    const path = ['Command', ...method.split('/').slice(1)];
+    return schema.node(path).then(
+      (node) => validateParams(node, params),
+      () => undefined,
+    );
+  }
+
+  if (method === 'xSet' && params && Array.isArray(params.Path)) {
+    const path: NormalizedPath = params.Path;
+    return schema.valueSpace(path).then((valueSpace) => {
+      const reason = valueSpace && validateValue(valueSpace, params.Value);
+      if (reason) {
+        throw new IllegalValueError(reason, {
+          parameter: path.join('/'),
+          valueSpace,
+        });
+      }
+    });
+  }
+
+  return Promise.resolve();
+}
+
+/**
+ * Create a middleware validating command parameters and configuration
+ * values against the schema before requests are sent. Invalid requests are
+ * rejected locally with a `ParameterError` or `IllegalValueError`,
+ * checking required parameters, literal values, integer ranges, string
+ * lengths and array types.
+ *
+ * @param schema Schema to validate against.
+ * @return Request middleware.
+ */
+export function validateRequests(schema: Schema): Middleware {
+  return (request, next) =>
+    validateRequest(schema, request).then(() => next(request));
+}
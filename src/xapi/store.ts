@@ -0,0 +1,325 @@
+import XAPI from '.';
+import log from '../log';
+import { isGhost } from './feedback';
+import normalizePath from './normalizePath';
+import { Handler, NormalizedPath, Path } from './types';
+import { findKey, isObject } from './utils';
+
+/**
+ * Listener invoked when the store state changes.
+ */
+export type StoreListener = () => void;
+
+/**
+ * Function deriving a value from the store state.
+ */
+export type Selector<R> = (state: any) => R;
+
+/**
+ * Feedback received for a path while its current value is fetched.
+ */
+interface Resync {
+  path: NormalizedPath;
+  patches: any[];
+}
+
+function sameId(a: any, b: any) {
+  return a !== undefined && b !== undefined && a.toString() === b.toString();
+}
+
+function findIndex(elements: any[], id: any) {
+  return elements.findIndex((element) => isObject(element) && sameId(element.id, id));
+}
+
+/**
+ * Get the value at the given path. Numeric path elements refer to array
+ * elements by their id.
+ */
+function getIn(data: any, path: NormalizedPath): any {
+  if (!path.length || data === undefined) {
+    return data;
+  }
+  const [head, ...rest] = path;
+  if (Array.isArray(data)) {
+    const index = findIndex(data, head);
+    return index === -1 ? undefined : getIn(data[index], rest);
+  }
+  if (isObject(data)) {
+    const key = findKey(data, head);
+    return key === undefined ? undefined : getIn(data[key], rest);
+  }
+  return undefined;
+}
+
+/**
+ * Return a copy of the data with the value at the given path replaced.
+ */
+function setIn(data: any, path: NormalizedPath, value: any): any {
+  if (!path.length) {
+    return value;
+  }
+  const [head, ...rest] = path;
+  if (typeof head === 'number') {
+    const elements = Array.isArray(data) ? data.slice() : [];
+    const index = findIndex(elements, head);
+    const current = index === -1 ? { id: head.toString() } : elements[index];
+    const updated = setIn(current, rest, value);
+    const element = isObject(updated) ? { ...updated, id: current.id } : updated;
+    if (index === -1) {
+      elements.push(element);
+    } else {
+      elements[index] = element;
+    }
+    return elements;
+  }
+  const copy = isObject(data) ? { ...data } : {};
+  const key = findKey(copy, head) || head;
+  copy[key] = setIn(copy[key], rest, value);
+  return copy;
+}
+
+/**
+ * Extract the part of a feedback payload at the given path, keeping the
+ * structure (and array element ids) leading up to it.
+ */
+function pick(data: any, path: NormalizedPath): any {
+  if (!path.length || data === undefined) {
+    return data;
+  }
+  const [head, ...rest] = path;
+  if (Array.isArray(data)) {
+    const index = findIndex(data, head);
+    if (index === -1) {
+      return undefined;
+    }
+    const element = data[index];
+    if (isGhost(element)) {
+      return [element];
+    }
+    const picked = pick(element, rest);
+    return picked === undefined ? undefined : [{ ...picked, id: element.id }];
+  }
+  if (isObject(data)) {
+    const key = findKey(data, head);
+    if (key === undefined) {
+      return undefined;
+    }
+    const picked = pick(data[key], rest);
+    return picked === undefined ? undefined : { [key]: picked };
+  }
+  return undefined;
+}
+
+/**
+ * Merge a feedback payload into the data, returning a copy. Array elements
+ * are matched by id and removed when marked as ghosts.
+ */
+function merge(data: any, patch: any): any {
+  if (Array.isArray(patch)) {
+    const elements = Array.isArray(data) ? data.slice() : [];
+    patch.forEach((element) => {
+      const index = isObject(element) ? findIndex(elements, element.id) : -1;
+      if (isGhost(element)) {
+        if (index !== -1) {
+          elements.splice(index, 1);
+        }
+      } else if (index === -1) {
+        elements.push(element);
+      } else {
+        elements[index] = merge(elements[index], element);
+      }
+    });
+    return elements;
+  }
+  if (isObject(patch)) {
+    const copy = isObject(data) ? { ...data } : {};
+    Object.keys(patch).forEach((key) => {
+      const existing = findKey(copy, key) || key;
+      copy[existing] = merge(copy[existing], patch[key]);
+    });
+    return copy;
+  }
+  return patch;
+}
+
+/**
+ * Live mirror of parts of the XAPI status tree.
+ *
+ * The store fetches the current value of each path and applies all
+ * subsequent feedback, including additions and removals of array elements,
+ * to an in-memory tree. State updates are immutable, so unchanged parts of
+ * the tree keep their identity.
+ *
+ * ```typescript
+ * const store = xapi.store(['Audio', 'Call']);
+ * await store.ready();
+ *
+ * store.getSnapshot('Audio Volume'); // => 50
+ * store.select((state) => (state.Call || []).length, (calls) => {
+ *   console.log(`Number of calls: ${calls}`);
+ * });
+ * ```
+ */
+export default class Store {
+  private state: any = {};
+  private listeners = new Set<StoreListener>();
+  private paths: NormalizedPath[];
+  private handlers: Handler[] = [];
+  private resyncs: Resync[] = [];
+  private initialized: Promise<void>;
+
+  /**
+   * @param xapi XAPI instance.
+   * @param paths Status paths to mirror.
+   */
+  constructor(private readonly xapi: XAPI, paths: Path[]) {
+    this.paths = paths.map((path) => normalizePath(path));
+    const registrations = this.paths.map((path) => {
+      // Array elements are dispatched one by one with the same payload
+      let last: any;
+      return xapi.status.on(path as string[], (_, root) => {
+        if (root !== last) {
+          last = root;
+          this.apply(path, root);
+        }
+      });
+    });
+    this.handlers = registrations.slice();
+
+    const onReconnected = () => {
+      log.info('store: resyncing after reconnect');
+      this.resync().catch((error) => {
+        log.warn('store: resync failed', error);
+      });
+    };
+    xapi.on('reconnected', onReconnected);
+    this.handlers.push(() => {
+      xapi.removeListener('reconnected', onReconnected);
+    });
+
+    this.initialized = Promise.all(
+      registrations.map(({ registration }) => registration),
+    ).then(() => this.resync());
+    this.initialized.catch((error) => {
+      log.warn('store: initial fetch failed', error);
+    });
+  }
+
+  /**
+   * Resolved when the initial values have been fetched.
+   *
+   * @return Resolved with the store.
+   */
+  public ready(): Promise<this> {
+    return this.initialized.then(() => this);
+  }
+
+  /**
+   * Get the current value at the given path, or the whole mirrored tree.
+   *
+   * @param path Status path.
+   * @return Current value, `undefined` if not known.
+   */
+  public getSnapshot<T = any>(path?: Path): T {
+    return path ? getIn(this.state, normalizePath(path)) : this.state;
+  }
+
+  /**
+   * Register a listener invoked whenever the state changes.
+   *
+   * @param listener Listener to invoke.
+   * @return Handler to de-register the listener.
+   */
+  public subscribe(listener: StoreListener): Handler {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener invoked whenever a value derived from the state
+   * changes.
+   *
+   * @param selector Function deriving a value from the state.
+   * @param listener Listener invoked with the new value.
+   * @param equals Function comparing the previous and the new value.
+   * @return Handler to de-register the listener.
+   */
+  public select<R>(
+    selector: Selector<R>,
+    listener: (value: R) => void,
+    equals: (a: R, b: R) => boolean = (a, b) => a === b,
+  ): Handler {
+    let current = selector(this.state);
+    return this.subscribe(() => {
+      const next = selector(this.state);
+      if (!equals(current, next)) {
+        current = next;
+        listener(next);
+      }
+    });
+  }
+
+  /**
+   * Fetch the current value of all mirrored paths. Feedback received while
+   * fetching may be newer than the fetched value and is applied on top of
+   * it.
+   *
+   * @return Resolved when the values have been fetched.
+   */
+  public resync(): Promise<void> {
+    return Promise.all(
+      this.paths.map((path) => {
+        const resync: Resync = { patches: [], path };
+        this.resyncs.push(resync);
+        const done = () => {
+          this.resyncs = this.resyncs.filter((r) => r !== resync);
+        };
+        return this.xapi.status.get(path as string[]).then(
+          (value) => {
+            done();
+            const fetched = setIn(this.state, path, value);
+            this.update(resync.patches.reduce(merge, fetched));
+          },
+          (error) => {
+            done();
+            throw error;
+          },
+        );
+      }),
+    ).then(() => undefined);
+  }
+
+  /**
+   * Stop mirroring and de-register feedback.
+   */
+  public close() {
+    this.handlers.forEach((handler) => {
+      handler();
+    });
+    this.handlers = [];
+    this.listeners.clear();
+  }
+
+  private apply(path: NormalizedPath, root: any) {
+    const statusKey = findKey(root, 'Status');
+    if (statusKey === undefined) {
+      return;
+    }
+    const patch = pick(root[statusKey], path);
+    if (patch !== undefined) {
+      this.resyncs
+        .filter((resync) => resync.path === path)
+        .forEach((resync) => resync.patches.push(patch));
+      this.update(merge(this.state, patch));
+    }
+  }
+
+  private update(state: any) {
+    this.state = state;
+    this.listeners.forEach((listener) => {
+      listener();
+    });
+  }
+}
@@ -0,0 +1,234 @@
+import { NormalizedPath } from './types';
+import { toIndex } from './utils';
+
+/**
+ * Listener invoked for feedback on an exact path. Receives the feedback
+ * value, the payload root, the subscription id of the payload and the
+ * concrete path including array indices.
+ */
+export type ExactListener = (
+  value: any,
+  root: any,
+  id: number | undefined,
+  concrete: NormalizedPath,
+) => void;
+
+/**
+ * Listener invoked for every concrete path below the node it is registered
+ * on, e.g. for matching path patterns, or for every removed array element
+ * when registered as a remove listener.
+ */
+export type ScopeListener = (
+  concrete: NormalizedPath,
+  value: any,
+  root: any,
+  id: number | undefined,
+) => void;
+
+/**
+ * Kind of listener registered in the trie.
+ */
+export type ListenerKind = 'exact' | 'pattern' | 'remove';
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  exact: Set<ExactListener>;
+  pattern: Set<ScopeListener>;
+  remove: Set<ScopeListener>;
+}
+
+interface Scope {
+  pattern: ScopeListener[];
+  remove: ScopeListener[];
+}
+
+const emptyScope: Scope = { pattern: [], remove: [] };
+
+function createNode(): TrieNode {
+  return {
+    children: new Map(),
+    exact: new Set(),
+    pattern: new Set(),
+    remove: new Set(),
+  };
+}
+
+function isEmpty(node: TrieNode) {
+  return (
+    !node.children.size &&
+    !node.exact.size &&
+    !node.pattern.size &&
+    !node.remove.size
+  );
+}
+
+function toKey(part: string | number) {
+  return part.toString().toLowerCase();
+}
+
+/**
+ * Check if an array element is a removal (`ghost`) entry.
+ */
+export function isGhost(element: any) {
+  return (
+    element !== null &&
+    typeof element === 'object' &&
+    (element.ghost === 'True' || element.ghost === true)
+  );
+}
+
+/**
+ * Collect the remove listeners registered on a node and its descendants.
+ */
+function collectRemove(node: TrieNode, listeners: ScopeListener[]) {
+  node.remove.forEach((listener) => listeners.push(listener));
+  node.children.forEach((child) => collectRemove(child, listeners));
+  return listeners;
+}
+
+/**
+ * Trie of feedback listeners keyed by (lower cased) path elements.
+ *
+ * Dispatching a payload only walks the branches of the payload that have
+ * listeners registered on or below them, so the cost of dispatch does not
+ * depend on the size of unrelated parts of the payload.
+ *
+ * Array elements are walked both with and without their index in the path,
+ * i.e. a listener on `Status/Call` receives every call element and a
+ * listener on `Status/Call/42` only the element with id 42. Pattern and
+ * remove listeners are scoped to the subtree of the node they are
+ * registered on and only see the indexed walk, so each element once.
+ */
+export default class ListenerTrie {
+  private root = createNode();
+
+  /**
+   * Register a listener on the given path.
+   *
+   * @param path Normalized path without wildcards.
+   * @param kind Kind of listener.
+   * @param listener Listener to register.
+   */
+  public add(
+    path: NormalizedPath,
+    kind: ListenerKind,
+    listener: ExactListener | ScopeListener,
+  ) {
+    let node = this.root;
+    path.forEach((part) => {
+      const key = toKey(part);
+      let child = node.children.get(key);
+      if (!child) {
+        child = createNode();
+        node.children.set(key, child);
+      }
+      node = child;
+    });
+    (node[kind] as Set<typeof listener>).add(listener);
+  }
+
+  /**
+   * Remove a listener from the given path, pruning nodes left empty.
+   *
+   * @param path Normalized path the listener was registered on.
+   * @param kind Kind of listener.
+   * @param listener Listener to remove.
+   */
+  public remove(
+    path: NormalizedPath,
+    kind: ListenerKind,
+    listener: ExactListener | ScopeListener,
+  ) {
+    const nodes = [this.root];
+    for (const part of path) {
+      const child = nodes[nodes.length - 1].children.get(toKey(part));
+      if (!child) {
+        return;
+      }
+      nodes.push(child);
+    }
+
+    (nodes[nodes.length - 1][kind] as Set<typeof listener>).delete(listener);
+    for (let i = nodes.length - 1; i > 0 && isEmpty(nodes[i]); i -= 1) {
+      nodes[i - 1].children.delete(toKey(path[i - 1]));
+    }
+  }
+
+  /**
+   * Invoke the listeners for a feedback payload.
+   *
+   * @param data Feedback payload.
+   */
+  public dispatch(data: any) {
+    this.walk(this.root, data, data, data && data.Id, [], true, emptyScope);
+  }
+
+  private walk(
+    node: TrieNode | undefined,
+    data: any,
+    root: any,
+    id: number | undefined,
+    concrete: NormalizedPath,
+    indexed: boolean,
+    inherited: Scope,
+  ) {
+    let scope = inherited;
+    if (node && indexed && (node.pattern.size || node.remove.size)) {
+      scope = {
+        pattern: scope.pattern.concat(Array.from(node.pattern)),
+        remove: scope.remove.concat(Array.from(node.remove)),
+      };
+    }
+
+    if (Array.isArray(data)) {
+      data.forEach((element) => {
+        const path = concrete.concat(toIndex(element.id));
+        if (node) {
+          this.walk(node, element, root, id, path, false, emptyScope);
+        }
+        const child =
+          node && element.id !== undefined
+            ? node.children.get(toKey(element.id))
+            : undefined;
+        if (child || scope.pattern.length || scope.remove.length) {
+          this.walk(child, element, root, id, path, indexed, scope);
+        }
+        if (indexed && isGhost(element)) {
+          const removed = child
+            ? collectRemove(child, scope.remove.slice())
+            : scope.remove;
+          removed.forEach((listener) => {
+            listener(path, element, root, id);
+          });
+        }
+      });
+      return;
+    }
+
+    if (node && node.exact.size) {
+      // Listeners added during dispatch only receive the next payload
+      Array.from(node.exact).forEach((listener) => {
+        listener(data, root, id, concrete);
+      });
+    }
+    if (indexed) {
+      scope.pattern.forEach((listener) => {
+        listener(concrete, data, root, id);
+      });
+    }
+
+    if (data !== null && typeof data === 'object') {
+      const walkAll = scope.pattern.length || scope.remove.length;
+      if (!walkAll && (!node || !node.children.size)) {
+        return;
+      }
+      Object.keys(data).forEach((key) => {
+        const child = node && node.children.get(toKey(key));
+        if (child || walkAll) {
+          const path = concrete.concat(key);
+          this.walk(child, data[key], root, id, path, indexed, scope);
+        }
+      });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Duplex } from 'stream';
+import { Backend } from '../backend';
 import { FeedbackInterceptor } from './feedback';
 
 export interface CloseableStream extends Duplex {
@@ -15,11 +16,326 @@ export type Path = string | string[];
  */
 export type NormalizedPath = (string | number)[];
 
-export type Listener<T = any> = (ev: T, root: any) => void;
+/**
+ * Information about a concrete path matched by a feedback path pattern.
+ */
+export interface PathMatch {
+  /**
+   * Array indices captured by wildcards.
+   */
+  indices: number[];
+  /**
+   * The concrete path, e.g. `Status/Call[42]/Status`.
+   */
+  path: string;
+  /**
+   * Set when the matched array element was removed.
+   */
+  removed?: boolean;
+}
+
+/**
+ * Metadata about a feedback payload, passed to listeners registered with the
+ * `metadata` option.
+ */
+export interface FeedbackMetadata extends PathMatch {
+  /**
+   * The concrete path as a normalized path.
+   */
+  normalizedPath: NormalizedPath;
+  /**
+   * Monotonically increasing number of the feedback payload. Listeners
+   * invoked for the same payload receive the same sequence number.
+   */
+  sequence: number;
+  /**
+   * Id of the feedback subscription the payload was received on.
+   */
+  subscriptionId?: number;
+  /**
+   * Local time the payload was received, in milliseconds since the epoch.
+   */
+  timestamp: number;
+}
+
+export type Listener<T = any> = (
+  ev: T,
+  root: any,
+  match?: PathMatch | FeedbackMetadata,
+) => void;
+
+/**
+ * Options for rate limiting and de-duplicating feedback for a listener.
+ */
+export interface ListenerOptions {
+  /**
+   * Only invoke the listener once no feedback has arrived for this many
+   * milliseconds, with the latest value.
+   */
+  debounce?: number;
+  /**
+   * Skip values equal to the previously delivered value. A function may be
+   * given to compare values.
+   */
+  distinct?: boolean | ((previous: any, value: any) => boolean);
+  /**
+   * Pass {@link FeedbackMetadata} to the listener as the third argument.
+   */
+  metadata?: boolean;
+  /**
+   * Receive feedback as reported by the backend, keeping attributes such as
+   * `valueSpaceRef` and `{ Value }` nodes. Raw feedback is not passed
+   * through feedback interceptors. Overrides {@link XapiOptions.raw}.
+   */
+  raw?: boolean;
+  /**
+   * Invoke the listener at most once per this many milliseconds. The latest
+   * value received in between is delivered at the end of the period.
+   */
+  throttle?: number;
+}
+
+/**
+ * Minimal interface of an `AbortSignal`, compatible with both the DOM and
+ * Node.js implementations.
+ */
+export interface AbortSignalLike {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * Options for waiting on feedback.
+ */
+export interface WaitOptions {
+  /**
+   * Signal used to stop waiting.
+   */
+  signal?: AbortSignalLike;
+  /**
+   * Time in milliseconds to wait before rejecting.
+   */
+  timeout?: number;
+}
+
+/**
+ * Predicate deciding if a feedback value is the one being waited for.
+ */
+export type Predicate<T = any> = (
+  ev: T,
+  root: any,
+  match?: PathMatch,
+) => boolean;
+
+/**
+ * Options for a single XAPI request.
+ */
+export interface RequestOptions {
+  /**
+   * Priority of the request when queued. Higher values are sent first.
+   */
+  priority?: number;
+  /**
+   * Resolve with the result as reported by the backend, keeping attributes
+   * such as `item` and `valueSpaceRef` and `{ Value }` nodes. Overrides
+   * {@link XapiOptions.raw}.
+   */
+  raw?: boolean;
+  /**
+   * Signal used to abort the request.
+   */
+  signal?: AbortSignalLike;
+  /**
+   * Milliseconds to wait for a response before rejecting the request.
+   * Overrides {@link XapiOptions.timeout}. Zero disables the timeout.
+   */
+  timeout?: number;
+}
+
+/**
+ * Operation in a batch, see {@link XAPI.batch}.
+ *
+ * - `{ command, params?, body? }` invokes a command.
+ * - `{ status }` gets a status.
+ * - `{ config }` gets a configuration, `{ config, value }` sets it.
+ */
+export type BatchOperation =
+  | { command: Path; params?: object; body?: string }
+  | { status: Path }
+  | { config: Path; value?: number | string };
+
+/**
+ * Result of a batch operation. Operations not executed because of an earlier
+ * failure are `skipped`.
+ */
+export interface BatchResult<T = any> {
+  status: 'fulfilled' | 'rejected' | 'skipped';
+  value?: T;
+  error?: XapiError;
+}
+
+export interface BatchOptions extends RequestOptions {
+  /**
+   * Number of operations executed concurrently. Defaults to 1 (in order).
+   * Must be a positive integer.
+   */
+  parallelism?: number;
+  /**
+   * Skip the remaining operations after the first failure.
+   */
+  stopOnError?: boolean;
+}
+
+/**
+ * Options for closing an XAPI connection.
+ */
+export interface CloseOptions {
+  /**
+   * Wait for in-flight requests and de-register feedback before closing.
+   */
+  graceful?: boolean;
+  /**
+   * Milliseconds to wait for a graceful close before closing anyway.
+   */
+  timeout?: number;
+}
+
+/**
+ * State of the connection to the XAPI backend.
+ */
+export type ConnectionState =
+  | 'connecting'
+  | 'initializing'
+  | 'ready'
+  | 'reconnecting'
+  | 'closed';
+
+/**
+ * Options for limiting the number of concurrent requests.
+ */
+export interface QueueOptions {
+  /**
+   * Default priority of feedback subscribe and unsubscribe requests.
+   */
+  feedbackPriority: number;
+  /**
+   * Maximum number of requests awaiting a response from the backend.
+   * Requests that time out or are aborted after being sent count until the
+   * backend answers them or the connection is lost.
+   */
+  maxInFlight: number;
+  /**
+   * Maximum number of requests waiting to be sent. Further requests are
+   * rejected.
+   */
+  maxQueued: number;
+}
+
+/**
+ * Request queue metrics.
+ */
+export interface QueueStats {
+  inFlight: number;
+  maxInFlight: number;
+  maxQueued: number;
+  queued: number;
+}
+
+/**
+ * Policy for reconnecting when the connection to the backend is lost.
+ */
+export interface ReconnectPolicy {
+  /**
+   * Delay in milliseconds before the first reconnect attempt.
+   */
+  initialDelay: number;
+  /**
+   * Upper bound in milliseconds for the delay between attempts.
+   */
+  maxDelay: number;
+  /**
+   * Multiplier applied to the delay after each failed attempt.
+   */
+  factor: number;
+  /**
+   * Number of consecutive failed attempts before giving up.
+   */
+  maxAttempts: number;
+  /**
+   * Randomization of each delay, as a fraction (0 - 1) of the delay.
+   */
+  jitter: number;
+}
+
+/**
+ * Options for coercing values into JavaScript types, see
+ * {@link XapiOptions.coerce}.
+ */
+export interface CoerceOptions {
+  /**
+   * Pairs of literals converted to `true` and `false`, e.g.
+   * `[['On', 'Off'], ['True', 'False']]`. Literal values are only converted
+   * if their value space consists of exactly the pair. None by default.
+   */
+  booleans?: [string, string][];
+  /**
+   * Coerce command responses. These are not described by the schema, so
+   * values are converted by guessing: integer strings and boolean literals.
+   * Disabled by default.
+   */
+  commands?: boolean;
+}
 
 export interface XapiOptions {
-  feedbackInterceptor?: FeedbackInterceptor;
+  /**
+   * Coerce `xGet` results and feedback into JavaScript types (numbers,
+   * booleans, arrays) according to the value spaces of the schema (see
+   * `schema`). Command responses are only coerced if enabled in the options.
+   */
+  coerce?: boolean | CoerceOptions;
+  /**
+   * Factory for new backend instances, used when reconnecting.
+   */
+  createBackend?: () => Backend;
+  /**
+   * Feedback interceptor, or chain of interceptors invoked in order, to
+   * inspect, change or discard feedback before it reaches listeners.
+   */
+  feedbackInterceptor?: FeedbackInterceptor | FeedbackInterceptor[];
+  /**
+   * Request concurrency limits. Unlimited by default.
+   */
+  queue?: Partial<QueueOptions>;
+  /**
+   * Return results and feedback as reported by the backend instead of
+   * collapsing `{ Value }` nodes and dropping attributes. Can be overridden
+   * per request and per feedback listener.
+   */
+  raw?: boolean;
+  /**
+   * Reconnect policy. Reconnecting is disabled if not set and requires
+   * `createBackend`.
+   */
+  reconnect?: boolean | Partial<ReconnectPolicy>;
+  /**
+   * Look up value spaces in the device schema to describe the accepted
+   * values in parameter errors. Set to `true` to fetch the schema on demand
+   * with `xDoc`, or give a schema document with the `Command` and
+   * `Configuration` schemas.
+   */
+  schema?: boolean | { [root: string]: any };
   seal?: boolean;
+  /**
+   * Default request timeout in milliseconds. No timeout if not set.
+   */
+  timeout?: number;
+  /**
+   * Validate command parameters and configuration values against the
+   * schema (see `schema`) before sending requests, rejecting invalid ones
+   * locally with a `ParameterError` or `IllegalValueError`.
+   */
+  validate?: boolean;
 }
 
 export interface XapiRequest {
@@ -27,12 +343,32 @@ export interface XapiRequest {
   method: string;
   jsonrpc: string;
   params?: any;
+  /**
+   * Ask the backend for the result as reported by the device. Handled
+   * locally and not sent to the device.
+   */
+  raw?: boolean;
 }
 
+/**
+ * Middleware for outgoing requests, see {@link XAPI.use}.
+ */
+export type Middleware =
+  /**
+   * @param request The outgoing JSON-RPC request.
+   * @param next Pass the request on to the next middleware or the backend.
+   * @return The result of the request, or a promise of it.
+   */
+  (request: XapiRequest, next: (request: XapiRequest) => Promise<any>) => any;
+
 export interface XapiResponse {
   id: string;
   method: string;
   params: any;
+  /**
+   * Feedback payload as reported by the device, if `params` is collapsed.
+   */
+  rawParams?: any;
   result: XapiResult;
   error: XapiError;
 }
@@ -41,6 +377,38 @@ export interface XapiResult {
   Id: number;
 }
 
+/**
+ * Values accepted by a command parameter or configuration, as described by
+ * the device schema.
+ */
+export interface ValueSpace {
+  /**
+   * Schema type, e.g. `Integer`, `Literal` or `String`.
+   */
+  type: string;
+  /**
+   * Accepted values of literal types.
+   */
+  literals?: string[];
+  /**
+   * Range of integer types.
+   */
+  min?: number;
+  max?: number;
+  /**
+   * Length range of string types.
+   */
+  minLength?: number;
+  maxLength?: number;
+  /**
+   * Whether the command parameter is required.
+   */
+  required?: boolean;
+  default?: string;
+}
+
 export interface XapiError {
+  code?: number;
+  data?: any;
   message: string;
 }
@@ -0,0 +1,26 @@
+/**
+ * Check if a value is an object, excluding `null` and arrays.
+ */
+export function isObject(value: any) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Find the key of an object matching the given key case insensitively.
+ *
+ * @param obj Object to search.
+ * @param key Key to look for.
+ * @return The actual key, or `undefined` if not found.
+ */
+export function findKey(obj: any, key: string | number) {
+  const lower = key.toString().toLowerCase();
+  return Object.keys(obj).find((k) => k.toLowerCase() === lower);
+}
+
+/**
+ * Convert the id of an array element to a path index. Non-numeric ids are
+ * kept as is.
+ */
+export function toIndex(id: any) {
+  return /^\d+$/.test(id) ? parseInt(id, 10) : id;
+}
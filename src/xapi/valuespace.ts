@@ -0,0 +1,158 @@
+import { ValueSpace } from './types';
+
+function toNumber(value: any) {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function range(min?: number, max?: number) {
+  if (min !== undefined && max !== undefined) {
+    return `${min}..${max}`;
+  }
+  if (min !== undefined) {
+    return `at least ${min}`;
+  }
+  if (max !== undefined) {
+    return `at most ${max}`;
+  }
+  return undefined;
+}
+
+/**
+ * Parse the `ValueSpace` of a schema (xDoc) node.
+ *
+ * @param raw ValueSpace as found in the schema.
+ * @return Parsed value space, `undefined` if invalid.
+ */
+export function parseValueSpace(raw: any): ValueSpace | undefined {
+  if (!raw || typeof raw !== 'object' || typeof raw.type !== 'string') {
+    return undefined;
+  }
+
+  const valueSpace: ValueSpace = { type: raw.type };
+  if (Array.isArray(raw.Value)) {
+    valueSpace.literals = raw.Value.map((value: any) => value.toString());
+  }
+  const numbers: ['min', 'max', 'minLength', 'maxLength'] = [
+    'min',
+    'max',
+    'minLength',
+    'maxLength',
+  ];
+  numbers.forEach((key) => {
+    const value = toNumber(raw[key]);
+    if (value !== undefined) {
+      valueSpace[key] = value;
+    }
+  });
+  if (raw.required !== undefined) {
+    valueSpace.required = raw.required === 'True' || raw.required === true;
+  }
+  if (raw.default !== undefined) {
+    valueSpace.default = raw.default;
+  }
+  return valueSpace;
+}
+
+/**
+ * Describe the values allowed by a value space, e.g. `0..100` or
+ * `one of On, Off`.
+ *
+ * @param valueSpace Value space.
+ * @return Human readable description.
+ */
+export function formatValueSpace(valueSpace: ValueSpace): string {
+  const { literals, max, maxLength, min, minLength, type } = valueSpace;
+  switch (type) {
+    case 'Integer':
+    case 'IntegerArray':
+      return range(min, max) || 'an integer';
+    case 'Literal':
+    case 'LiteralArray':
+      return literals && literals.length
+        ? `one of ${literals.join(', ')}`
+        : 'a literal';
+    case 'String':
+    case 'StringArray': {
+      const length = range(minLength, maxLength);
+      return length ? `a string of ${length} characters` : 'a string';
+    }
+    default:
+      return `of type ${type}`;
+  }
+}
+
+function validateScalar(valueSpace: ValueSpace, value: any) {
+  const { literals, max, maxLength, min, minLength } = valueSpace;
+  const isScalar = typeof value === 'string' || typeof value === 'number';
+  switch (valueSpace.type.replace(/Array$/, '')) {
+    case 'Integer': {
+      const parsed =
+        typeof value === 'string' && /^\s*-?\d+\s*$/.test(value)
+          ? parseInt(value, 10)
+          : value;
+      if (typeof parsed !== 'number' || parsed % 1 !== 0) {
+        return 'Expected an integer';
+      }
+      if (
+        (min !== undefined && parsed < min) ||
+        (max !== undefined && parsed > max)
+      ) {
+        return 'Out of range';
+      }
+      return undefined;
+    }
+    case 'Literal': {
+      if (!isScalar) {
+        return 'Expected a literal';
+      }
+      const lower = value.toString().toLowerCase();
+      if (literals && !literals.some((l) => l.toLowerCase() === lower)) {
+        return 'Invalid value';
+      }
+      return undefined;
+    }
+    case 'String': {
+      if (!isScalar) {
+        return 'Expected a string';
+      }
+      const { length } = value.toString();
+      if (
+        (minLength !== undefined && length < minLength) ||
+        (maxLength !== undefined && length > maxLength)
+      ) {
+        return 'Invalid length';
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check a value against a value space. Array types accept a single value or
+ * an array of values.
+ *
+ * @param valueSpace Value space.
+ * @param value Value to check.
+ * @return Reason the value is invalid, `undefined` if it is valid.
+ */
+export function validateValue(
+  valueSpace: ValueSpace,
+  value: any,
+): string | undefined {
+  if (!Array.isArray(value)) {
+    return validateScalar(valueSpace, value);
+  }
+  if (!/Array$/.test(valueSpace.type)) {
+    return 'Expected a single value';
+  }
+  for (const element of value) {
+    const reason = validateScalar(valueSpace, element);
+    if (reason) {
+      return reason;
+    }
+  }
+  return undefined;
+}
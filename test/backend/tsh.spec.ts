@@ -126,7 +126,8 @@ Last login from 10.228.101.226 at 2017-12-01 13:14:47
       id?: string;
       method?: string;
       params?: any;
-      result?: string | boolean;
+      raw?: boolean;
+      result?: any;
     }
 
     type Omit<T, K> = Pick<T, Exclude<keyof T, K>>;
@@ -209,6 +210,28 @@ Last login from 10.228.101.226 at 2017-12-01 13:14:47
           },
         },
       },
+      {
+        name: 'xCommand, it reports the offending parameter',
+        request: { method: 'xCommand/Audio/Volume/Set' },
+        response: `
+          {
+            "CommandResponse": {
+              "AudioVolumeSetResult": {
+                "status": "ParameterError",
+                "Level": { "Value": "Out of range" }
+              }
+            }
+            ,"ResultId": "request-1"
+          }
+        `,
+        expected: {
+          error: {
+            code: PARAMETER_ERROR,
+            data: { parameter: 'Level', reason: 'Out of range' },
+            message: 'Level: Out of range',
+          },
+        },
+      },
       {
         name: 'xCommand, it extracts nested command result',
         request: {
@@ -296,6 +319,27 @@ Last login from 10.228.101.226 at 2017-12-01 13:14:47
           },
         },
       },
+      {
+        name: 'xCommand, it keeps "Value" nodes in raw mode',
+        request: { method: 'xCommand/Audio/Volume/Get', raw: true },
+        response: `
+          {
+            "CommandResponse": {
+              "VolumeGetResult": {
+                "status": "OK",
+                "Level": {
+                  "Value": "50",
+                  "item": "1"
+                }
+              }
+            }
+            ,"ResultId": "request-1"
+          }
+        `,
+        expected: {
+          result: { Level: { Value: '50', item: '1' }, status: 'OK' },
+        },
+      },
       // xGet
       {
         name: 'xGet, it finds the leaf node of the result',
@@ -317,6 +361,30 @@ Last login from 10.228.101.226 at 2017-12-01 13:14:47
         `,
         expected: { result: '29038' },
       },
+      {
+        name: 'xGet, it keeps attributes in raw mode',
+        request: {
+          method: 'xGet',
+          params: { Path: ['Status', 'Audio', 'Volume'] },
+          raw: true,
+        },
+        response: `
+          {
+            "Status": {
+              "Audio": {
+                "Volume": {
+                  "Value": "50",
+                  "valueSpaceRef": "/Valuespace/INT_0_100"
+                }
+              }
+            }
+            ,"ResultId": "request-1"
+          }
+        `,
+        expected: {
+          result: { Value: '50', valueSpaceRef: '/Valuespace/INT_0_100' },
+        },
+      },
       {
         name: 'xGet, handles invalid path',
         request: {
@@ -429,7 +497,11 @@ Last login from 10.228.101.226 at 2017-12-01 13:14:47
         expected: {
           error: {
             code: ILLEGAL_VALUE,
-            message: 'Illegal value',
+            data: {
+              parameter: 'Configuration/Audio/DefaultVolume',
+              reason: 'Illegal value',
+            },
+            message: 'Configuration/Audio/DefaultVolume: Illegal value',
           },
         },
       },
@@ -539,6 +611,7 @@ Last login from 10.228.101.226 at 2017-12-01 13:14:47
         jsonrpc: '2.0',
         method: 'xFeedback/Event',
         params: { Status: { Audio: { id: '', Volume: '75' } } },
+        rawParams: { Status: { Audio: { id: '', Volume: { Value: '75' } } } },
       });
     });
   });
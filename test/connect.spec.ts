@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import connect, { globalDefaults } from '../src/connect';
+import connect, { globalDefaults, promisifyConnect } from '../src/connect';
 import log from '../src/log';
 import XAPI from '../src/xapi';
 
@@ -82,5 +82,94 @@ describe('connect()', () => {
         username: 'integrator',
       });
     });
+
+    it('passes reconnect options and backend factory to XAPI', () => {
+      const XAPIMock = jest.fn();
+      const doConnect = connect(initBackend, {
+        protocol: 'ssh:',
+      })(XAPIMock as any);
+
+      doConnect('host.example.com', { reconnect: { maxAttempts: 5 } });
+
+      expect(initBackend).toHaveBeenCalledTimes(1);
+      const [, xapiOptions] = XAPIMock.mock.calls[0];
+      expect(xapiOptions.reconnect).toEqual({ maxAttempts: 5 });
+
+      xapiOptions.createBackend();
+      expect(initBackend).toHaveBeenCalledTimes(2);
+      expect(initBackend).toHaveBeenLastCalledWith(
+        expect.objectContaining({ host: 'host.example.com' }),
+      );
+    });
+  });
+
+  describe('promisifyConnect()', () => {
+    let backend: EventEmitter;
+
+    beforeEach(() => {
+      backend = new EventEmitter();
+      initBackend.mockReturnValue(backend);
+    });
+
+    it('resolves with XAPI instance when ready', async () => {
+      const doConnect = promisifyConnect(connect(initBackend, {})(XAPI));
+
+      const result = doConnect('ssh://host.example.com');
+      backend.emit('ready');
+
+      const xapi = await result;
+      expect(xapi).toBeInstanceOf(XAPI);
+    });
+
+    it('logs errors after the connection is ready', async () => {
+      // Spy on the console since connecting resets the log methods
+      const logSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const doConnect = promisifyConnect(connect(initBackend, {})(XAPI));
+      const error = new Error('connection reset');
+
+      const result = doConnect('ssh://host.example.com');
+      backend.emit('ready');
+      const xapi = await result;
+
+      expect(() => backend.emit('error', error)).not.toThrow();
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.anything(),
+        'xapi error:',
+        error,
+      );
+      expect(xapi.state).toEqual('closed');
+      logSpy.mockRestore();
+    });
+
+    it('leaves later errors to application listeners', async () => {
+      const logSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const doConnect = promisifyConnect(connect(initBackend, {})(XAPI));
+      const error = new Error('connection reset');
+      const errorSpy = jest.fn();
+
+      const result = doConnect('ssh://host.example.com');
+      backend.emit('ready');
+      (await result).on('error', errorSpy);
+      backend.emit('error', error);
+
+      expect(errorSpy).toHaveBeenCalledWith(error);
+      expect(logSpy).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+    });
+
+    it('rejects on connection error', async () => {
+      const doConnect = promisifyConnect(connect(initBackend, {})(XAPI));
+      const error = new Error('authentication failed');
+
+      const result = doConnect('ssh://host.example.com');
+      backend.emit('error', error);
+
+      await expect(result).rejects.toBe(error);
+    });
+
+    it('rejects on invalid arguments', async () => {
+      const doConnect = promisifyConnect(connect(initBackend, {})(XAPI)) as any;
+      await expect(doConnect()).rejects.toThrow(/invalid arguments/i);
+    });
   });
 });
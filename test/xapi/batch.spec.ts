@@ -0,0 +1,133 @@
+import Backend from '../../src/backend';
+import XAPI from '../../src/xapi';
+import { XAPIError } from '../../src/xapi/exc';
+
+describe('XAPI.batch()', () => {
+  let xapi: XAPI;
+  let executeStub: jest.SpyInstance;
+
+  beforeEach(() => {
+    xapi = new XAPI(new Backend());
+    executeStub = jest
+      .spyOn(XAPI.prototype, 'execute')
+      .mockImplementation((method: string, params: any) => {
+        if (params && params.Fail) {
+          return Promise.reject(new XAPIError(0, `${method} failed`));
+        }
+        return Promise.resolve({ method, params });
+      });
+  });
+
+  afterEach(() => {
+    executeStub.mockRestore();
+  });
+
+  it('executes operations in order', async () => {
+    const results = await xapi.batch([
+      { config: 'Audio DefaultVolume', value: 50 },
+      { config: 'SystemUnit Name' },
+      { command: 'Dial', params: { Number: 'user@example.com' } },
+      { status: 'Audio Volume' },
+    ]);
+
+    expect(executeStub.mock.calls.map(([method]) => method)).toEqual([
+      'xSet',
+      'xGet',
+      'xCommand/Dial',
+      'xGet',
+    ]);
+    expect(results.map((r) => r.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'fulfilled',
+      'fulfilled',
+    ]);
+    expect(results[3].value).toEqual({
+      method: 'xGet',
+      params: { Path: ['Status', 'Audio', 'Volume'] },
+    });
+  });
+
+  it('reports failures per operation', async () => {
+    const results = await xapi.batch([
+      { command: 'Foo', params: { Fail: true } },
+      { command: 'Bar' },
+    ]);
+
+    expect(results[0].status).toEqual('rejected');
+    expect(results[0].error).toBeInstanceOf(XAPIError);
+    expect(results[0].error!.message).toEqual('xCommand/Foo failed');
+    expect(results[1].status).toEqual('fulfilled');
+  });
+
+  it('rejects invalid operations', async () => {
+    const results = await xapi.batch([{ foo: 'bar' } as any]);
+
+    expect(results[0].status).toEqual('rejected');
+    expect(results[0].error!.message).toMatch(/invalid batch operation/i);
+  });
+
+  it('skips remaining operations with stopOnError', async () => {
+    const results = await xapi.batch(
+      [
+        { command: 'Foo' },
+        { command: 'Bar', params: { Fail: true } },
+        { command: 'Baz' },
+      ],
+      { stopOnError: true },
+    );
+
+    expect(results.map((r) => r.status)).toEqual([
+      'fulfilled',
+      'rejected',
+      'skipped',
+    ]);
+    expect(executeStub).toHaveBeenCalledTimes(2);
+  });
+
+  it('limits concurrency with parallelism', async () => {
+    let active = 0;
+    let maxActive = 0;
+    executeStub.mockImplementation(() => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      return new Promise((resolve) => setImmediate(() => {
+        active -= 1;
+        resolve(null);
+      }));
+    });
+
+    const operations = [1, 2, 3, 4, 5].map(() => ({ status: 'Audio Volume' }));
+    const results = await xapi.batch(operations, { parallelism: 2 });
+
+    expect(maxActive).toEqual(2);
+    expect(results).toHaveLength(5);
+  });
+
+  it('rejects invalid parallelism', async () => {
+    const operations = [{ status: 'Audio Volume' }];
+
+    await Promise.all(
+      [0, -1, 1.5, NaN].map((parallelism) =>
+        expect(xapi.batch(operations, { parallelism })).rejects.toThrow(
+          /invalid batch parallelism/i,
+        ),
+      ),
+    );
+    expect(executeStub).not.toHaveBeenCalled();
+  });
+
+  it('passes request options to each operation', async () => {
+    await xapi.batch([{ status: 'Audio Volume' }], { timeout: 1000 });
+
+    expect(executeStub).toHaveBeenCalledWith(
+      'xGet',
+      { Path: ['Status', 'Audio', 'Volume'] },
+      { timeout: 1000 },
+    );
+  });
+
+  it('resolves with empty results for empty batch', async () => {
+    await expect(xapi.batch([])).resolves.toEqual([]);
+  });
+});
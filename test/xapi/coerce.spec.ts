@@ -0,0 +1,278 @@
+import Backend from '../../src/backend';
+import XAPI from '../../src/xapi';
+import {
+  coerce,
+  coerceFeedback,
+  coerceResults,
+} from '../../src/xapi/coerce';
+import Schema from '../../src/xapi/schema';
+
+const document = {
+  Command: {
+    Audio: {
+      Volume: {
+        Get: { command: 'True' },
+      },
+    },
+  },
+  Configuration: {
+    Audio: {
+      DefaultVolume: {
+        ValueSpace: { max: '100', min: '0', type: 'Integer' },
+      },
+      Output: {
+        Line: [
+          {
+            Mode: { ValueSpace: { type: 'Literal', Value: ['On', 'Off'] } },
+          },
+        ],
+      },
+    },
+  },
+  Event: {
+    Standby: {
+      SecondsToStandby: { type: 'int' },
+    },
+  },
+  StatusSchema: {
+    Audio: {
+      Microphones: {
+        Mute: { ValueSpace: { type: 'Literal', Value: ['On', 'Off'] } },
+      },
+      Volume: { ValueSpace: { type: 'Integer' } },
+    },
+    Call: [
+      {
+        Duration: { ValueSpace: { type: 'Integer' } },
+        Status: {
+          ValueSpace: { type: 'Literal', Value: ['Connected', 'Idle'] },
+        },
+      },
+    ],
+    Video: {
+      Layout: {
+        Ids: { ValueSpace: { type: 'IntegerArray' } },
+      },
+    },
+  },
+};
+
+const booleans: [string, string][] = [['On', 'Off']];
+
+describe('coerce', () => {
+  describe('coerce()', () => {
+    it('converts integers', () => {
+      const node = document.StatusSchema.Audio;
+      expect(coerce(node, { Volume: '50' })).toEqual({ Volume: 50 });
+    });
+
+    it('leaves values without schema as is', () => {
+      const node = document.StatusSchema.Audio;
+      expect(coerce(node, { Foo: '50' })).toEqual({ Foo: '50' });
+      expect(coerce(undefined, { Volume: '50' })).toEqual({ Volume: '50' });
+    });
+
+    it('does not convert invalid integers', () => {
+      const node = document.StatusSchema.Audio;
+      expect(coerce(node, { Volume: 'N/A' })).toEqual({ Volume: 'N/A' });
+    });
+
+    it('keeps leading zeros and unsafe integers as strings', () => {
+      const node = document.StatusSchema.Audio;
+      expect(coerce(node, { Volume: '007' })).toEqual({ Volume: '007' });
+      expect(coerce(node, { Volume: '12345678901234567890' })).toEqual({
+        Volume: '12345678901234567890',
+      });
+      expect(coerce(node, { Volume: '0' })).toEqual({ Volume: 0 });
+    });
+
+    it('converts array types', () => {
+      const node = document.StatusSchema.Video;
+      expect(coerce(node, { Layout: { Ids: ['1', '2'] } })).toEqual({
+        Layout: { Ids: [1, 2] },
+      });
+      expect(coerce(node, { Layout: { Ids: '3' } })).toEqual({
+        Layout: { Ids: [3] },
+      });
+    });
+
+    it('converts indexed nodes and keeps attributes', () => {
+      const data = [
+        { Duration: '10', Status: 'Connected', id: '1' },
+        { ghost: 'True', id: '2' },
+      ];
+      expect(coerce(document.StatusSchema.Call, data)).toEqual([
+        { Duration: 10, Status: 'Connected', id: '1' },
+        { ghost: 'True', id: '2' },
+      ]);
+    });
+
+    it('converts boolean literals only when enabled', () => {
+      const node = document.StatusSchema.Audio.Microphones;
+      expect(coerce(node, { Mute: 'On' })).toEqual({ Mute: 'On' });
+      expect(coerce(node, { Mute: 'On' }, { booleans })).toEqual({
+        Mute: true,
+      });
+      expect(coerce(node, { Mute: 'off' }, { booleans })).toEqual({
+        Mute: false,
+      });
+    });
+
+    it('does not convert literals with other values to booleans', () => {
+      const node = document.StatusSchema.Call;
+      expect(coerce(node, { Status: 'Connected' }, { booleans })).toEqual({
+        Status: 'Connected',
+      });
+    });
+
+    it('converts event integers', () => {
+      expect(
+        coerce(document.Event, { Standby: { SecondsToStandby: '30' } }),
+      ).toEqual({ Standby: { SecondsToStandby: 30 } });
+    });
+  });
+
+  describe('middleware', () => {
+    let schema: Schema;
+
+    beforeEach(() => {
+      schema = new Schema(new XAPI(new Backend()), document);
+    });
+
+    it('coerces get results', async () => {
+      const middleware = coerceResults(schema, { booleans });
+      const next = jest.fn(() => Promise.resolve({ Mute: 'Off' }));
+
+      const result = await middleware(
+        {
+          jsonrpc: '2.0',
+          method: 'xGet',
+          params: { Path: ['Status', 'Audio', 'Microphones'] },
+        },
+        next,
+      );
+
+      expect(result).toEqual({ Mute: false });
+    });
+
+    it('coerces command responses without schema if enabled', async () => {
+      const middleware = coerceResults(schema, { booleans, commands: true });
+      const next = jest.fn(() =>
+        Promise.resolve({ Mute: 'On', Volume: '50', status: 'OK' }),
+      );
+
+      const result = await middleware(
+        { jsonrpc: '2.0', method: 'xCommand/Audio/Volume/Get' },
+        next,
+      );
+
+      expect(result).toEqual({ Mute: true, Volume: 50, status: 'OK' });
+    });
+
+    it('keeps numbers of command responses as strings', async () => {
+      const middleware = coerceResults(schema, { commands: true });
+      const next = jest.fn(() =>
+        Promise.resolve({ Id: '12345678901234567890', Number: '004712345' }),
+      );
+
+      const result = await middleware(
+        { jsonrpc: '2.0', method: 'xCommand/Phonebook/Search' },
+        next,
+      );
+
+      expect(result).toEqual({
+        Id: '12345678901234567890',
+        Number: '004712345',
+      });
+    });
+
+    it('leaves command responses as is by default', async () => {
+      const middleware = coerceResults(schema, { booleans });
+      const response = { Mute: 'On', Volume: '50', status: 'OK' };
+      const next = jest.fn(() => Promise.resolve(response));
+
+      const result = await middleware(
+        { jsonrpc: '2.0', method: 'xCommand/Audio/Volume/Get' },
+        next,
+      );
+
+      expect(result).toEqual(response);
+    });
+
+    it('passes other requests through', async () => {
+      const middleware = coerceResults(schema);
+      const next = jest.fn(() => Promise.resolve({ Value: '50' }));
+
+      const result = await middleware(
+        { jsonrpc: '2.0', method: 'xDoc', params: { Path: ['Status'] } },
+        next,
+      );
+
+      expect(result).toEqual({ Value: '50' });
+    });
+  });
+
+  describe('coerceFeedback()', () => {
+    it('emits coerced feedback in order', async () => {
+      let resolveStatus: (node: any) => void = () => undefined;
+      const schema = new Schema(new XAPI(new Backend()));
+      jest.spyOn(schema, 'node').mockImplementation(([root]: any) =>
+        root === 'Status'
+          ? new Promise((resolve) => {
+              resolveStatus = resolve;
+            })
+          : Promise.resolve(document.Configuration),
+      );
+      const emit = jest.fn();
+      const interceptor = coerceFeedback(schema);
+
+      interceptor({ Id: 1, Status: { Audio: { Volume: '50' } } }, emit);
+      interceptor({ Configuration: { Audio: { DefaultVolume: '60' } } }, emit);
+      await Promise.resolve();
+      expect(emit).not.toHaveBeenCalled();
+
+      resolveStatus(document.StatusSchema);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(emit.mock.calls).toEqual([
+        [{ Id: 1, Status: { Audio: { Volume: 50 } } }],
+        [{ Configuration: { Audio: { DefaultVolume: 60 } } }],
+      ]);
+    });
+  });
+
+  describe('coerce option', () => {
+    let backend: Backend;
+    let xapi: XAPI;
+
+    beforeEach(() => {
+      backend = new Backend();
+      xapi = new XAPI(backend, {
+        coerce: { booleans },
+        schema: document,
+      });
+      jest.spyOn(backend, 'execute').mockImplementation((request: any) => {
+        backend.emit('data', {
+          id: request.id,
+          jsonrpc: '2.0',
+          result: '50',
+        });
+        return Promise.resolve();
+      });
+    });
+
+    it('coerces get results', async () => {
+      await expect(xapi.status.get('Audio Volume')).resolves.toEqual(50);
+    });
+
+    it('coerces feedback before interceptors and listeners', async () => {
+      const spy = jest.fn();
+      await xapi.status.on('Audio Volume', spy).registration;
+
+      xapi.feedback.dispatch({ Status: { Audio: { Volume: '60' } } });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(spy).toHaveBeenCalledWith(60, expect.anything());
+    });
+  });
+});
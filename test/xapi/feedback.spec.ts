@@ -13,6 +13,10 @@ function getPath(obj: any, ...path: any[]) {
   return tmp;
 }
 
+function flushPromises() {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
 describe('Feedback', () => {
   let interceptor: jest.SpyInstance;
   let feedback: Feedback;
@@ -128,16 +132,16 @@ describe('Feedback', () => {
 
       await Promise.all([
         feedback.on('Status/Audio/Volume', spy1).registration,
-        feedback.on('Status/Audio/Volume', spy2).registration,
+        feedback.on('Status/Audio', spy2).registration,
       ]);
 
       feedback.dispatch({
-        Id: 0,
+        Id: 1,
         Status: { Audio: { Volume: '50' } },
       });
 
-      expect(spy1).toHaveBeenCalledTimes(1);
-      expect(spy2).not.toHaveBeenCalled();
+      expect(spy1).not.toHaveBeenCalled();
+      expect(spy2).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -175,7 +179,70 @@ describe('Feedback', () => {
         feedback.on('Status/Audio/Volume', spy).registration,
       ]);
 
-      expect(regs).toEqual([{ Id: 0 }, { Id: 1 }]);
+      expect(regs).toEqual([{ Id: 0 }, { Id: 0 }]);
+    });
+
+    it('shares registration between listeners on the same path', async () => {
+      const spies = [jest.fn(), jest.fn(), jest.fn()];
+
+      await Promise.all(
+        spies.map((spy) => feedback.on('Status/Audio/Volume', spy).registration),
+      );
+      feedback.dispatch({ Id: 0, Status: { Audio: { Volume: 50 } } });
+
+      const subscribes = executeStub.mock.calls.filter(
+        ([method]) => method === 'xFeedback/Subscribe',
+      );
+      expect(subscribes).toHaveLength(1);
+      spies.forEach((spy) => {
+        expect(spy).toHaveBeenCalledWith(50, expect.anything());
+      });
+    });
+
+    it('reuses registration of a parent path', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Audio', () => {}).registration;
+      const registration = await feedback.on('Status/Audio/Volume', spy)
+        .registration;
+      feedback.dispatch({ Id: 0, Status: { Audio: { Volume: 50 } } });
+
+      expect(registration).toEqual({ Id: 0 });
+      expect(executeStub).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(50, expect.anything());
+    });
+
+    it('unsubscribes when the last listener is removed', async () => {
+      const off1 = feedback.on('Status/Audio/Volume', () => {});
+      const off2 = feedback.on('Status/Audio/Volume', () => {});
+      await off1.registration;
+
+      off1();
+      await flushPromises();
+      expect(executeStub).not.toHaveBeenCalledWith(
+        'xFeedback/Unsubscribe',
+        expect.anything(),
+      );
+
+      off2();
+      await flushPromises();
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Unsubscribe', {
+        Id: 0,
+      });
+    });
+
+    it('can be removed before registration completes', async () => {
+      const spy = jest.fn();
+
+      const off = feedback.on('Status/Audio/Volume', spy);
+      off();
+      await flushPromises();
+      feedback.dispatch({ Id: 0, Status: { Audio: { Volume: 50 } } });
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Unsubscribe', {
+        Id: 0,
+      });
     });
 
     it('registers feedback with the backend', () => {
@@ -203,6 +270,36 @@ describe('Feedback', () => {
       expect(spy).toHaveBeenCalledWith(50, expect.anything());
     });
 
+    it('applies listener options per listener', async () => {
+      const distinct = jest.fn();
+      const all = jest.fn();
+
+      await Promise.all([
+        feedback.on('Status/Audio/Volume', distinct, { distinct: true })
+          .registration,
+        feedback.on('Status/Audio/Volume', all).registration,
+      ]);
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+
+      expect(distinct).toHaveBeenCalledTimes(1);
+      expect(all).toHaveBeenCalledTimes(2);
+    });
+
+    it('cancels pending rate limited invocations when removed', async () => {
+      jest.useFakeTimers();
+      const spy = jest.fn();
+
+      const off = feedback.on('Status/Audio/Volume', spy, { debounce: 100 });
+      await off.registration;
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      off();
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+
     it('normalizes path', () => {
       const path = 'status/audio   volume';
 
@@ -270,6 +367,67 @@ describe('Feedback', () => {
       expect(spy4).not.toHaveBeenCalledWith('Connected', expect.anything());
     });
 
+    it('handles wildcard array indices', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Call[*]/Status', spy).registration;
+      feedback.dispatch({
+        Status: {
+          Call: [
+            { id: '42', Status: 'Connected' },
+            { id: '43', Status: 'Dialling' },
+          ],
+        },
+      });
+
+      expect(xapi.execute).toHaveBeenCalledWith('xFeedback/Subscribe', {
+        Query: ['Status', 'Call'],
+      });
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy).toHaveBeenNthCalledWith(1, 'Connected', expect.anything(), {
+        indices: [42],
+        path: 'Status/Call[42]/Status',
+      });
+      expect(spy).toHaveBeenNthCalledWith(2, 'Dialling', expect.anything(), {
+        indices: [43],
+        path: 'Status/Call[43]/Status',
+      });
+    });
+
+    it('handles globstar patterns', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Event/UserInterface/Extensions/**', spy).registration;
+      feedback.dispatch({
+        Event: {
+          UserInterface: {
+            Extensions: { Widget: { Action: { Value: 'on' } } },
+          },
+        },
+      });
+
+      const paths = spy.mock.calls.map(([, , match]) => match.path);
+      expect(paths).toEqual([
+        'Event/UserInterface/Extensions',
+        'Event/UserInterface/Extensions/Widget',
+        'Event/UserInterface/Extensions/Widget/Action',
+        'Event/UserInterface/Extensions/Widget/Action/Value',
+      ]);
+    });
+
+    it('can remove pattern listeners', async () => {
+      const spy = jest.fn();
+
+      const off = feedback.on('Status/Call[*]/Status', spy);
+      await off.registration;
+      off();
+      feedback.dispatch({
+        Status: { Call: [{ id: '42', Status: 'Connected' }] },
+      });
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+
     it('dispatches array elements one-by-one', async () => {
       const spy = jest.fn();
 
@@ -313,6 +471,21 @@ describe('Feedback', () => {
       );
     });
 
+    it('flags removed elements for pattern listeners', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Call[*]', spy).registration;
+      feedback.dispatch({
+        Status: { Call: [{ ghost: 'True', id: '42' }] },
+      });
+
+      expect(spy).toHaveBeenCalledWith(
+        { ghost: 'True', id: '42' },
+        expect.anything(),
+        { indices: [42], path: 'Status/Call[42]', removed: true },
+      );
+    });
+
     it('is called by .once()', () => {
       const path = 'Status/Audio/Volume';
       const listener = () => {};
@@ -327,6 +500,295 @@ describe('Feedback', () => {
     });
   });
 
+  describe('metadata', () => {
+    it('is not passed by default', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Audio/Volume', spy).registration;
+      feedback.dispatch({ Id: 0, Status: { Audio: { Volume: 50 } } });
+
+      expect(spy.mock.calls[0]).toHaveLength(2);
+    });
+
+    it('is passed as third argument when enabled', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1234);
+      const spy = jest.fn();
+
+      await feedback.on('Status/Audio/Volume', spy, { metadata: true })
+        .registration;
+      feedback.dispatch({ Id: 0, Status: { Audio: { Volume: 50 } } });
+
+      expect(spy).toHaveBeenCalledWith(50, expect.anything(), {
+        indices: [],
+        normalizedPath: ['Status', 'Audio', 'Volume'],
+        path: 'Status/Audio/Volume',
+        sequence: 1,
+        subscriptionId: 0,
+        timestamp: 1234,
+      });
+      (Date.now as jest.Mock).mockRestore();
+    });
+
+    it('contains array indices of the concrete path', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Call/Status', spy, { metadata: true })
+        .registration;
+      feedback.dispatch({ Status: { Call: [{ Status: 'Idle', id: '3' }] } });
+
+      expect(spy).toHaveBeenCalledWith(
+        'Idle',
+        expect.anything(),
+        expect.objectContaining({
+          indices: [3],
+          normalizedPath: ['Status', 'Call', 3, 'Status'],
+          path: 'Status/Call[3]/Status',
+        }),
+      );
+    });
+
+    it('has a sequence number per payload', async () => {
+      const spy = jest.fn();
+
+      await Promise.all([
+        feedback.on('Status/Audio/Volume', spy, { metadata: true })
+          .registration,
+        feedback.on('Status/Call[*]/Status', spy, { metadata: true })
+          .registration,
+      ]);
+      feedback.dispatch({
+        Status: { Audio: { Volume: 50 }, Call: [{ Status: 'Idle', id: '3' }] },
+      });
+      feedback.dispatch({ Status: { Audio: { Volume: 60 } } });
+
+      const sequences = spy.mock.calls.map(([, , { sequence }]) => sequence);
+      expect(sequences).toEqual([1, 1, 2]);
+    });
+
+    it('is passed through rate limited listeners', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Audio/Volume', spy, {
+        distinct: true,
+        metadata: true,
+      }).registration;
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+
+      expect(spy).toHaveBeenCalledWith(
+        50,
+        expect.anything(),
+        expect.objectContaining({ path: 'Status/Audio/Volume', sequence: 1 }),
+      );
+    });
+  });
+
+  describe('raw', () => {
+    const data = { Status: { Audio: { Volume: '50' } } };
+    const raw = {
+      Status: {
+        Audio: {
+          Volume: { Value: '50', valueSpaceRef: '/Valuespace/INT_0_100' },
+        },
+      },
+    };
+
+    it('dispatches raw feedback to raw listeners', async () => {
+      const collapsed = jest.fn();
+      const uncollapsed = jest.fn();
+
+      await Promise.all([
+        feedback.on('Status/Audio/Volume', collapsed).registration,
+        feedback.on('Status/Audio/Volume', uncollapsed, { raw: true })
+          .registration,
+      ]);
+      feedback.dispatch(data, raw);
+
+      expect(collapsed).toHaveBeenCalledWith('50', data);
+      expect(uncollapsed).toHaveBeenCalledWith(
+        { Value: '50', valueSpaceRef: '/Valuespace/INT_0_100' },
+        raw,
+      );
+    });
+
+    it('dispatches feedback as is without raw payload', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Audio/Volume', spy, { raw: true })
+        .registration;
+      feedback.dispatch(data);
+
+      expect(spy).toHaveBeenCalledWith('50', data);
+    });
+
+    it('bypasses interceptors', async () => {
+      const spy = jest.fn();
+      interceptor.mockImplementation(() => undefined);
+
+      await feedback.on('Status/Audio/Volume', spy, { raw: true })
+        .registration;
+      feedback.dispatch(data, raw);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('can be enabled per instance', async () => {
+      const spy = jest.fn();
+      feedback = new Feedback(xapi, [], true);
+
+      await feedback.on('Status/Audio/Volume', spy).registration;
+      feedback.dispatch(data, raw);
+
+      expect(spy).toHaveBeenCalledWith(raw.Status.Audio.Volume, raw);
+    });
+
+    it('stops invoking removed raw listeners', async () => {
+      const spy = jest.fn();
+
+      const off = feedback.on('Status/Audio/Volume', spy, { raw: true });
+      await off.registration;
+      off();
+      feedback.dispatch(data, raw);
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listener errors', () => {
+    it('does not interrupt delivery to other listeners', async () => {
+      const spy = jest.fn();
+
+      await Promise.all([
+        feedback.on('Status/Audio/Volume', () => {
+          throw new Error('listener failed');
+        }).registration,
+        feedback.on('Status/Audio/Volume', spy).registration,
+      ]);
+
+      expect(() => {
+        feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      }).not.toThrow();
+      expect(spy).toHaveBeenCalledWith(50, expect.anything());
+    });
+
+    it('are emitted as listenerError on the XAPI', async () => {
+      const error = new Error('listener failed');
+      const onError = jest.fn();
+      xapi.on('listenerError', onError);
+
+      await feedback.on('Status/Audio/Volume', () => {
+        throw error;
+      }).registration;
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+
+      expect(onError).toHaveBeenCalledWith('Status/Audio/Volume', 50, error);
+    });
+
+    it('reports the concrete path of pattern listeners', async () => {
+      const error = new Error('listener failed');
+      const onError = jest.fn();
+      xapi.on('listenerError', onError);
+
+      await feedback.on('Status/Call[*]/Status', () => {
+        throw error;
+      }).registration;
+      feedback.dispatch({ Status: { Call: [{ Status: 'Idle', id: '3' }] } });
+
+      expect(onError).toHaveBeenCalledWith('Status/Call[3]/Status', 'Idle', error);
+    });
+
+    it('reports rejections of async listeners', async () => {
+      const error = new Error('listener failed');
+      const onError = jest.fn();
+      xapi.on('listenerError', onError);
+
+      await feedback.on('Status/Audio/Volume', async () => {
+        throw error;
+      }).registration;
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(onError).toHaveBeenCalledWith('Status/Audio/Volume', 50, error);
+    });
+  });
+
+  describe('.onRemove()', () => {
+    const removal = {
+      Status: {
+        Call: [
+          { ghost: 'True', id: '42' },
+          { Status: 'Connected', id: '43' },
+        ],
+      },
+    };
+
+    it('is invoked for removed elements', async () => {
+      const spy = jest.fn();
+
+      await feedback.onRemove('Status/Call[*]', spy).registration;
+      feedback.dispatch(removal);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(
+        { indices: [42], path: 'Status/Call[42]', removed: true },
+        removal,
+      );
+    });
+
+    it('subscribes to the array path', async () => {
+      await feedback.onRemove('Status/Call[*]', () => {}).registration;
+
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Subscribe', {
+        Query: ['Status', 'Call'],
+      });
+    });
+
+    it('matches all elements of an array path', async () => {
+      const spy = jest.fn();
+
+      await feedback.onRemove('Status/Call', spy).registration;
+      feedback.dispatch(removal);
+
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('matches specific elements', async () => {
+      const spy42 = jest.fn();
+      const spy43 = jest.fn();
+
+      await Promise.all([
+        feedback.onRemove('Status/Call[42]', spy42).registration,
+        feedback.onRemove('Status/Call[43]', spy43).registration,
+      ]);
+      feedback.dispatch(removal);
+
+      expect(spy42).toHaveBeenCalledTimes(1);
+      expect(spy43).not.toHaveBeenCalled();
+    });
+
+    it('matches paths below removed elements', async () => {
+      const spy = jest.fn();
+
+      await feedback.onRemove('Status/Call[*]/Status', spy).registration;
+      feedback.dispatch(removal);
+
+      expect(spy).toHaveBeenCalledWith(
+        { indices: [42], path: 'Status/Call[42]', removed: true },
+        removal,
+      );
+    });
+
+    it('can be de-registered', async () => {
+      const spy = jest.fn();
+
+      const off = feedback.onRemove('Status/Call[*]', spy);
+      await off.registration;
+      off();
+      feedback.dispatch(removal);
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('.once()', () => {
     it('deregisters after emit', async () => {
       const spy = jest.fn();
@@ -341,6 +803,112 @@ describe('Feedback', () => {
     });
   });
 
+  describe('.unsubscribeAll()', () => {
+    it('de-registers all subscriptions', async () => {
+      const spy = jest.fn();
+      await Promise.all([
+        feedback.on('Status/Audio/Volume', spy).registration,
+        feedback.on('Event/Standby', spy).registration,
+      ]);
+
+      await feedback.unsubscribeAll();
+
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Unsubscribe', { Id: 0 });
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Unsubscribe', { Id: 1 });
+
+      feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('does not de-register subscriptions twice', async () => {
+      const off = feedback.on('Status/Audio/Volume', jest.fn());
+      await off.registration;
+
+      await feedback.unsubscribeAll();
+      off();
+      await Promise.resolve();
+
+      const unsubscribes = executeStub.mock.calls.filter(
+        ([method]) => method === 'xFeedback/Unsubscribe',
+      );
+      expect(unsubscribes).toHaveLength(1);
+    });
+
+    it('rejects when de-registration fails', async () => {
+      await feedback.on('Status/Audio/Volume', jest.fn()).registration;
+      executeStub.mockRejectedValueOnce(new Error('unsubscribe failed'));
+
+      await expect(feedback.unsubscribeAll()).rejects.toThrow(
+        'unsubscribe failed',
+      );
+    });
+  });
+
+  describe('de-registration failures', () => {
+    it('are not raised from the cancellation function', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      const off = feedback.on('Status/Audio/Volume', jest.fn());
+      await off.registration;
+      executeStub.mockRejectedValueOnce(new Error('unsubscribe failed'));
+
+      off();
+      await flushPromises();
+
+      process.removeListener('unhandledRejection', unhandled);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('are not raised for failed registrations', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      executeStub.mockRejectedValueOnce(new Error('subscribe failed'));
+      const off = feedback.on('Status/Audio/Volume', jest.fn());
+
+      off();
+      await expect(off.registration).rejects.toThrow('subscribe failed');
+      await flushPromises();
+
+      process.removeListener('unhandledRejection', unhandled);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('.resubscribe()', () => {
+    it('re-issues active subscriptions with new ids', async () => {
+      const spy = jest.fn();
+      await feedback.on('Status/Audio/Volume', spy).registration;
+      executeStub.mockClear();
+
+      await feedback.resubscribe();
+
+      expect(executeStub).toHaveBeenCalledTimes(1);
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Subscribe', {
+        Query: ['Status', 'Audio', 'Volume'],
+      });
+
+      feedback.dispatch({ Id: 0, Status: { Audio: { Volume: 30 } } });
+      feedback.dispatch({ Id: 1, Status: { Audio: { Volume: 50 } } });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(50, expect.anything());
+    });
+
+    it('skips subscriptions that are turned off', async () => {
+      const off = feedback.on('Status/Audio/Volume', jest.fn());
+      await off.registration;
+      off();
+      executeStub.mockClear();
+
+      await feedback.resubscribe();
+
+      expect(executeStub).not.toHaveBeenCalledWith(
+        'xFeedback/Subscribe',
+        expect.anything(),
+      );
+    });
+  });
+
   describe('.off()', () => {
     it('is now deprecated/removed and throws Error', () => {
       const spy = jest.fn();
@@ -402,6 +970,79 @@ describe('Feedback', () => {
       expect(spy).toHaveBeenCalledTimes(1);
       expect(spy).toHaveBeenCalledWith('100', data);
     });
+
+    it('runs a chain of interceptors in order', async () => {
+      const spy = jest.fn();
+      const calls: string[] = [];
+      xapi = new XAPI(new Backend(), {
+        feedbackInterceptor: [
+          (data: any, emit: (d: any) => void) => {
+            calls.push('first');
+            emit({ ...data, Event: { Step: 'first' } });
+          },
+          (data: any, emit: (d: any) => void) => {
+            calls.push('second');
+            emit({ ...data, Event: { Step: `${data.Event.Step}, second` } });
+          },
+        ],
+        seal: true,
+      } as any);
+
+      await xapi.feedback.on('Event/Step', spy).registration;
+      xapi.feedback.dispatch({});
+
+      expect(calls).toEqual(['first', 'second']);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][0]).toEqual('first, second');
+    });
+
+    it('stops the chain when an interceptor does not emit', async () => {
+      const spy = jest.fn();
+      const last = jest.fn((data: any, emit: (d: any) => void) => emit(data));
+      xapi = new XAPI(new Backend(), {
+        feedbackInterceptor: [() => {}, last],
+        seal: true,
+      } as any);
+
+      await xapi.feedback.on('Status/Audio/Volume', spy).registration;
+      xapi.feedback.dispatch({ Status: { Audio: { Volume: '50' } } });
+
+      expect(last).not.toHaveBeenCalled();
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('can add and remove interceptors at runtime', async () => {
+      const spy = jest.fn();
+      interceptor.mockImplementation((_, fn) => {
+        fn();
+      });
+      const double = jest.fn((data: any, emit: (d: any) => void) => {
+        emit({ Status: { Audio: { Volume: data.Status.Audio.Volume * 2 } } });
+      });
+
+      await feedback.on('Status/Audio/Volume', spy).registration;
+
+      const remove = feedback.addInterceptor(double);
+      feedback.dispatch({ Status: { Audio: { Volume: 25 } } });
+      expect(interceptor).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenLastCalledWith(50, expect.anything());
+
+      remove();
+      feedback.dispatch({ Status: { Audio: { Volume: 25 } } });
+      expect(double).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenLastCalledWith(25, expect.anything());
+    });
+
+    it('can remove interceptors given at construction', async () => {
+      const spy = jest.fn();
+
+      await feedback.on('Status/Audio/Volume', spy).registration;
+      feedback.removeInterceptor(interceptor as any);
+      feedback.dispatch({ Status: { Audio: { Volume: '50' } } });
+
+      expect(interceptor).not.toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledWith('50', expect.anything());
+    });
   });
 
   describe('.group()', () => {
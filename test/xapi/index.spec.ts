@@ -2,7 +2,38 @@ import Backend from '../../src/backend';
 import XAPI from '../../src/xapi';
 import * as rpc from '../../src/xapi/rpc';
 import { XapiRequest } from '../../src/xapi/types';
-import { METHOD_NOT_FOUND } from '../../src/xapi/exc';
+import { EventEmitter } from 'events';
+import {
+  AbortError,
+  ConnectionClosedError,
+  ILLEGAL_VALUE,
+  IllegalValueError,
+  INVALID_PATH,
+  InvalidPathError,
+  METHOD_NOT_FOUND,
+  MethodNotFoundError,
+  QueueFullError,
+  TimeoutError,
+  XAPIError,
+} from '../../src/xapi/exc';
+
+function createAbortSignal() {
+  const emitter = new EventEmitter();
+  const signal = {
+    aborted: false,
+    addEventListener: (type: 'abort', listener: () => void) => {
+      emitter.on(type, listener);
+    },
+    removeEventListener: (type: 'abort', listener: () => void) => {
+      emitter.removeListener(type, listener);
+    },
+  };
+  const abort = () => {
+    signal.aborted = true;
+    emitter.emit('abort');
+  };
+  return { abort, emitter, signal };
+}
 
 describe('XAPI', () => {
   let backend: Backend;
@@ -88,6 +119,395 @@ describe('XAPI', () => {
     });
   });
 
+  describe('state', () => {
+    it('is "connecting" initially', () => {
+      expect(xapi.state).toEqual('connecting');
+    });
+
+    it('follows backend events', () => {
+      const spy = jest.fn();
+      xapi.on('stateChange', spy);
+
+      backend.emit('initializing');
+      backend.emit('ready');
+      backend.emit('close');
+
+      expect(xapi.state).toEqual('closed');
+      expect(spy.mock.calls).toEqual([
+        ['initializing', 'connecting'],
+        ['ready', 'initializing'],
+        ['closed', 'ready'],
+      ]);
+    });
+
+    it('is "closed" on backend error', () => {
+      xapi.on('error', () => {});
+      backend.emit('error', new Error('some error'));
+      expect(xapi.state).toEqual('closed');
+    });
+  });
+
+  describe('.ready()', () => {
+    it('resolves when backend is ready', async () => {
+      const ready = xapi.ready();
+      backend.emit('ready');
+      await expect(ready).resolves.toBe(xapi);
+    });
+
+    it('resolves immediately if already ready', async () => {
+      backend.emit('ready');
+      await expect(xapi.ready()).resolves.toBe(xapi);
+    });
+
+    it('rejects with backend error', async () => {
+      const error = new Error('authentication failed');
+      const ready = xapi.ready();
+      xapi.on('error', () => {});
+
+      backend.emit('error', error);
+
+      await expect(ready).rejects.toBe(error);
+    });
+
+    it('rejects if closed before ready', async () => {
+      const ready = xapi.ready();
+      backend.emit('close');
+      await expect(ready).rejects.toThrow(/connection closed/i);
+    });
+
+    it('removes its state listener when settled', async () => {
+      const ready = xapi.ready();
+      backend.emit('ready');
+      await ready;
+      expect(xapi.listenerCount('stateChange')).toEqual(0);
+    });
+  });
+
+  describe('.close()', () => {
+    beforeEach(() => {
+      jest.spyOn(backend, 'close');
+    });
+
+    it('closes the backend and returns this', () => {
+      expect(xapi.close()).toBe(xapi);
+      expect(backend.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not leak rejections of dropped unsubscribe requests', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      jest.spyOn(backend, 'execute').mockImplementation(async (request) => {
+        if (request.method === 'xFeedback/Subscribe') {
+          backend.emit('data', rpc.createResponse(request.id!, { Id: 7 }));
+        }
+      });
+      (backend.close as jest.Mock).mockImplementation(() => {
+        setImmediate(() => backend.emit('close'));
+      });
+      backend.emit('ready');
+
+      const off = xapi.status.on('Audio Volume', jest.fn());
+      await off.registration;
+      off();
+      xapi.close();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      process.removeListener('unhandledRejection', unhandled);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    describe('graceful', () => {
+      let requests: XapiRequest[];
+
+      beforeEach(() => {
+        requests = [];
+        jest.spyOn(backend, 'execute').mockImplementation(async (request) => {
+          requests.push(request);
+          if (request.method.startsWith('xFeedback/')) {
+            backend.emit('data', rpc.createResponse(request.id!, { Id: 7 }));
+          }
+        });
+        backend.emit('ready');
+      });
+
+      it('waits for in-flight requests', async () => {
+        const result = xapi.command('Macros Macro Save', { Name: 'foo' });
+        const closed = xapi.close({ graceful: true });
+
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(backend.close).not.toHaveBeenCalled();
+
+        backend.emit('data', rpc.createResponse(requests[0].id!, {}));
+
+        await closed;
+        await expect(result).resolves.toEqual({});
+        expect(backend.close).toHaveBeenCalledTimes(1);
+      });
+
+      it('de-registers feedback before closing', async () => {
+        const spy = jest.fn();
+        await xapi.status.on('Audio Volume', spy).registration;
+
+        await xapi.close({ graceful: true });
+
+        expect(requests.map((r) => r.method)).toEqual([
+          'xFeedback/Subscribe',
+          'xFeedback/Unsubscribe',
+        ]);
+        expect(requests[1].params).toEqual({ Id: 7 });
+        expect(backend.close).toHaveBeenCalledTimes(1);
+
+        xapi.feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      it('closes anyway after timeout', async () => {
+        jest.useFakeTimers();
+        xapi.command('Standby Activate');
+
+        const closed = xapi.close({ graceful: true, timeout: 1000 });
+        jest.advanceTimersByTime(1000);
+        jest.useRealTimers();
+
+        await closed;
+        expect(backend.close).toHaveBeenCalledTimes(1);
+      });
+
+      it('closes immediately if not ready', async () => {
+        backend = new Backend();
+        jest.spyOn(backend, 'close');
+        xapi = new XAPI(backend);
+        xapi.execute('xGet', { Path: ['Status'] }).catch(() => {});
+
+        await xapi.close({ graceful: true });
+
+        expect(backend.close).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('reconnect', () => {
+    let backends: Backend[];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      backends = [];
+      const createBackend = () => {
+        const newBackend = new Backend();
+        jest.spyOn(newBackend, 'close');
+        jest.spyOn(newBackend, 'execute').mockImplementation(async (request) => {
+          if (request.method === 'xFeedback/Subscribe') {
+            newBackend.emit('data', rpc.createResponse(request.id!, {
+              Id: backends.indexOf(newBackend) + 10,
+            }));
+          }
+        });
+        backends.push(newBackend);
+        return newBackend;
+      };
+      backend = createBackend();
+      xapi = new XAPI(backend, {
+        createBackend,
+        reconnect: { initialDelay: 100, jitter: 0, maxAttempts: 2 },
+      });
+      backend.emit('ready');
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('is disabled without a reconnect policy', () => {
+      const closeSpy = jest.fn();
+      backend = new Backend();
+      xapi = new XAPI(backend, { createBackend: () => new Backend() });
+      xapi.on('close', closeSpy);
+
+      backend.emit('ready');
+      backend.emit('close');
+
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toEqual(0);
+    });
+
+    it('creates a new backend after a delay', () => {
+      const reconnectingSpy = jest.fn();
+      const closeSpy = jest.fn();
+      xapi.on('reconnecting', reconnectingSpy).on('close', closeSpy);
+
+      backend.emit('close');
+
+      expect(reconnectingSpy).toHaveBeenCalledWith(1, 100, undefined);
+      expect(closeSpy).not.toHaveBeenCalled();
+      expect(backends).toHaveLength(1);
+      expect(xapi.state).toEqual('reconnecting');
+
+      jest.advanceTimersByTime(100);
+
+      expect(backends).toHaveLength(2);
+      expect(xapi.state).toEqual('connecting');
+    });
+
+    it('emits "reconnected" and not "ready" when new backend is ready', async () => {
+      const readySpy = jest.fn();
+      const reconnectedSpy = jest.fn();
+      xapi.on('ready', readySpy).on('reconnected', reconnectedSpy);
+
+      backend.emit('error', new Error('connection lost'));
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+      backends[1].emit('ready');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(readySpy).not.toHaveBeenCalled();
+      expect(reconnectedSpy).toHaveBeenCalledWith(xapi);
+      expect(xapi.state).toEqual('ready');
+    });
+
+    it('routes requests to the new backend', async () => {
+      backend.emit('close');
+      jest.advanceTimersByTime(100);
+      backends[1].emit('ready');
+
+      const result = xapi.status.get('Audio Volume');
+      backends[1].emit('data', rpc.createResponse('1', 50));
+
+      await expect(result).resolves.toEqual(50);
+      expect(backends[1].execute).toHaveBeenCalled();
+    });
+
+    it('rejects requests while waiting to reconnect', async () => {
+      backend.emit('close');
+
+      await expect(xapi.status.get('Audio Volume'))
+        .rejects.toBeInstanceOf(ConnectionClosedError);
+    });
+
+    it('ignores events from the old backend', () => {
+      const reconnectingSpy = jest.fn();
+      xapi.on('reconnecting', reconnectingSpy);
+
+      backend.emit('error', new Error('connection lost'));
+      backend.emit('close');
+      jest.advanceTimersByTime(100);
+      backend.emit('close');
+
+      expect(reconnectingSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-issues feedback subscriptions', async () => {
+      const spy = jest.fn();
+      const off = xapi.status.on('Audio Volume', spy);
+      await off.registration;
+
+      backend.emit('close');
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+      backends[1].emit('ready');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(backends[1].execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'xFeedback/Subscribe',
+          params: { Query: ['Status', 'Audio', 'Volume'] },
+        }),
+      );
+
+      xapi.feedback.dispatch({ Id: 11, Status: { Audio: { Volume: 50 } } });
+      expect(spy).toHaveBeenCalledWith(50, expect.anything());
+    });
+
+    it('registers listeners added while waiting to reconnect', async () => {
+      const spy = jest.fn();
+      backend.emit('close');
+
+      const off = xapi.status.on('Audio Volume', spy);
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+      backends[1].emit('ready');
+
+      await expect(off.registration).resolves.toEqual({ Id: 11 });
+      expect(backends[1].execute).toHaveBeenCalledTimes(1);
+      expect(backends[1].execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'xFeedback/Subscribe',
+          params: { Query: ['Status', 'Audio', 'Volume'] },
+        }),
+      );
+
+      xapi.feedback.dispatch({ Id: 11, Status: { Audio: { Volume: 50 } } });
+      expect(spy).toHaveBeenCalledWith(50, expect.anything());
+    });
+
+    it('rejects listeners added while waiting when giving up', async () => {
+      backend.emit('close');
+
+      const off = xapi.status.on('Audio Volume', jest.fn());
+      xapi.close();
+
+      await expect(off.registration)
+        .rejects.toBeInstanceOf(ConnectionClosedError);
+    });
+
+    it('removes listeners while waiting to reconnect', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      const off = xapi.status.on('Audio Volume', jest.fn());
+      await off.registration;
+
+      backend.emit('close');
+      off();
+      jest.advanceTimersByTime(100);
+      jest.useRealTimers();
+      backends[1].emit('ready');
+      await new Promise((resolve) => setImmediate(resolve));
+      process.removeListener('unhandledRejection', unhandled);
+
+      expect(unhandled).not.toHaveBeenCalled();
+      expect(backends[1].execute).not.toHaveBeenCalled();
+      expect(xapi.state).toEqual('ready');
+    });
+
+    it('gives up after max attempts', () => {
+      const closeSpy = jest.fn();
+      const reconnectingSpy = jest.fn();
+      xapi.on('close', closeSpy).on('reconnecting', reconnectingSpy);
+
+      backend.emit('close');
+      jest.advanceTimersByTime(100);
+      backends[1].emit('close');
+      jest.advanceTimersByTime(200);
+      backends[2].emit('close');
+
+      expect(reconnectingSpy).toHaveBeenCalledTimes(2);
+      expect(reconnectingSpy).toHaveBeenLastCalledWith(2, 200, undefined);
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not reconnect after .close()', () => {
+      const closeSpy = jest.fn();
+      xapi.on('close', closeSpy);
+
+      xapi.close();
+      backend.emit('close');
+
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toEqual(0);
+    });
+
+    it('.close() cancels pending reconnect', () => {
+      const closeSpy = jest.fn();
+      xapi.on('close', closeSpy);
+
+      backend.emit('close');
+      xapi.close();
+      jest.advanceTimersByTime(100);
+
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(backends).toHaveLength(1);
+    });
+  });
+
   describe('.feedback', () => {
     it('property is enumerable', () => {
       expect(Object.keys(xapi)).toContain('feedback');
@@ -110,7 +530,22 @@ describe('XAPI', () => {
         params,
       });
 
-      expect(stub).toHaveBeenCalledWith(params);
+      expect(stub).toHaveBeenCalledWith(params, undefined);
+    });
+
+    it('is dispatched with the raw payload', () => {
+      const stub = jest.spyOn(xapi.feedback, 'dispatch').mockImplementation(function () { return this; });
+      const params = { Status: { Audio: { Volume: 50 } } };
+      const rawParams = { Status: { Audio: { Volume: { Value: 50 } } } };
+
+      backend.emit('data', {
+        jsonrpc: '2.0',
+        method: 'xFeedback/Event',
+        params,
+        rawParams,
+      });
+
+      expect(stub).toHaveBeenCalledWith(params, rawParams);
     });
   });
 
@@ -191,6 +626,441 @@ describe('XAPI', () => {
 
       return expect(result).rejects.toMatchObject({ message: 'Unknown command' });
     });
+
+    it('rejects with XAPIError sub class matching the error code', async () => {
+      jest.spyOn(backend, 'execute').mockImplementation(
+        asyncResponse(backend, {
+          error: {
+            code: METHOD_NOT_FOUND,
+            message: 'Unknown command',
+          },
+        }),
+      );
+
+      const params = { Baz: 'quux' };
+      const error = await xapi.execute('xCommand/Foo/Bar', params).then(
+        () => fail('should reject'),
+        (e) => e,
+      );
+
+      expect(error).toBeInstanceOf(MethodNotFoundError);
+      expect(error).toBeInstanceOf(XAPIError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toMatchObject({
+        code: METHOD_NOT_FOUND,
+        message: 'Unknown command',
+        method: 'xCommand/Foo/Bar',
+        params,
+      });
+      expect(error.stack).toEqual(expect.any(String));
+    });
+
+    it('includes the request path in errors', async () => {
+      jest.spyOn(backend, 'execute').mockImplementation(
+        asyncResponse(backend, {
+          error: {
+            code: ILLEGAL_VALUE,
+            message: 'Value out of range',
+          },
+        }),
+      );
+
+      const result = xapi.execute('xSet', {
+        Path: ['Configuration', 'Audio', 'DefaultVolume'],
+        Value: 200,
+      });
+
+      await expect(result).rejects.toBeInstanceOf(IllegalValueError);
+      await expect(result).rejects.toMatchObject({
+        code: ILLEGAL_VALUE,
+        message: 'Value out of range',
+        method: 'xSet',
+        path: ['Configuration', 'Audio', 'DefaultVolume'],
+      });
+    });
+
+    it('keeps error data from the backend', async () => {
+      jest.spyOn(backend, 'execute').mockImplementation(
+        asyncResponse(backend, {
+          error: {
+            code: INVALID_PATH,
+            data: { xpath: 'Status/Foo' },
+            message: 'No match on Path argument',
+          },
+        } as any),
+      );
+
+      const result = xapi.execute('xGet', { Path: ['Status', 'Foo'] });
+
+      await expect(result).rejects.toBeInstanceOf(InvalidPathError);
+      await expect(result).rejects.toMatchObject({
+        data: { xpath: 'Status/Foo' },
+        path: ['Status', 'Foo'],
+      });
+    });
+
+    it('rejects with XAPIError for unknown error codes', async () => {
+      jest.spyOn(backend, 'execute').mockImplementation(
+        asyncResponse(backend, {
+          error: {
+            code: 1234,
+            message: 'Something went wrong',
+          },
+        }),
+      );
+
+      const result = xapi.execute('xCommand/Foo', {});
+
+      await expect(result).rejects.toBeInstanceOf(XAPIError);
+      await expect(result).rejects.toMatchObject({
+        code: 1234,
+        message: 'Something went wrong',
+      });
+    });
+
+    describe('raw', () => {
+      it('asks the backend for raw results', () => {
+        const execute = jest
+          .spyOn(backend, 'execute')
+          .mockResolvedValue(undefined);
+
+        xapi.execute('xCommand/Audio/Volume/Get', {}, { raw: true });
+        xapi.execute('xCommand/Audio/Volume/Get', {});
+
+        expect(execute.mock.calls[0][0]).toMatchObject({ raw: true });
+        expect(execute.mock.calls[1][0]).not.toHaveProperty('raw');
+      });
+
+      it('can be enabled per instance', () => {
+        xapi = new XAPI(backend, { raw: true });
+        const execute = jest
+          .spyOn(backend, 'execute')
+          .mockResolvedValue(undefined);
+
+        xapi.execute('xCommand/Audio/Volume/Get', {});
+        xapi.execute('xCommand/Audio/Volume/Get', {}, { raw: false });
+
+        expect(execute.mock.calls[0][0]).toMatchObject({ raw: true });
+        expect(execute.mock.calls[1][0]).not.toHaveProperty('raw');
+      });
+    });
+
+    describe('timeout', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        jest.spyOn(backend, 'execute').mockResolvedValue(undefined);
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('rejects with TimeoutError when there is no response', async () => {
+        const result = xapi.execute('xGet', { Path: ['Status'] }, { timeout: 1000 });
+
+        jest.advanceTimersByTime(1000);
+
+        await expect(result).rejects.toBeInstanceOf(TimeoutError);
+        expect((xapi as any).requests).toEqual({});
+      });
+
+      it('uses default timeout from options', async () => {
+        xapi = new XAPI(backend, { timeout: 500 });
+        const result = xapi.status.get('Audio Volume');
+
+        jest.advanceTimersByTime(500);
+
+        await expect(result).rejects.toThrow(/timed out after 500 ms/);
+      });
+
+      it('per-call timeout overrides default timeout', async () => {
+        xapi = new XAPI(backend, { timeout: 500 });
+        const spy = jest.fn();
+        xapi.execute('xGet', { Path: ['Status'] }, { timeout: 0 }).catch(spy);
+
+        jest.advanceTimersByTime(10000);
+        await Promise.resolve();
+
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      it('ignores late responses', async () => {
+        const result = xapi.execute('xGet', { Path: ['Status'] }, { timeout: 1000 });
+        jest.advanceTimersByTime(1000);
+        await expect(result).rejects.toBeInstanceOf(TimeoutError);
+
+        expect(() => {
+          backend.emit('data', rpc.createResponse('1', 42));
+        }).not.toThrow();
+      });
+
+      it('clears timer on response', async () => {
+        const result = xapi.execute('xGet', { Path: ['Status'] }, { timeout: 1000 });
+        backend.emit('data', rpc.createResponse('1', 42));
+
+        await expect(result).resolves.toEqual(42);
+        expect(jest.getTimerCount()).toEqual(0);
+      });
+    });
+
+    describe('connection lost', () => {
+      beforeEach(() => {
+        jest.spyOn(backend, 'execute').mockResolvedValue(undefined);
+        xapi.on('error', () => {});
+      });
+
+      ['close', 'error'].forEach((event) => {
+        it(`rejects pending requests on backend "${event}"`, async () => {
+          const command = xapi.command('Dial', { Number: 'user@example.com' });
+          const get = xapi.status.get('Audio Volume');
+
+          backend.emit(event, new Error('connection lost'));
+
+          await expect(command).rejects.toBeInstanceOf(ConnectionClosedError);
+          await expect(command).rejects.toMatchObject({
+            data: { method: 'xCommand/Dial', path: ['Dial'] },
+          });
+          await expect(get).rejects.toMatchObject({
+            data: { method: 'xGet', path: ['Status', 'Audio', 'Volume'] },
+          });
+          expect((xapi as any).requests).toEqual({});
+        });
+      });
+
+      it('rejects before emitting "close"', (done) => {
+        xapi.execute('xGet', { Path: ['Status'] }).catch(() => {});
+        xapi.on('close', () => {
+          expect((xapi as any).requests).toEqual({});
+          done();
+        });
+
+        backend.emit('close');
+      });
+
+      it('ignores responses to unknown request ids', () => {
+        expect(() => {
+          backend.emit('data', rpc.createResponse('1234', 42));
+          backend.emit('data', rpc.createErrorResponse('1234', new Error('foo')));
+        }).not.toThrow();
+      });
+    });
+
+    describe('queue', () => {
+      beforeEach(() => {
+        jest.spyOn(backend, 'execute').mockResolvedValue(undefined);
+        xapi = new XAPI(backend, { queue: { maxInFlight: 1, maxQueued: 1 } });
+      });
+
+      it('sends requests when previous requests complete', async () => {
+        const first = xapi.execute('xGet', { Path: ['Status'] });
+        xapi.execute('xGet', { Path: ['Configuration'] });
+
+        expect(backend.execute).toHaveBeenCalledTimes(1);
+        expect(xapi.queueStats).toMatchObject({ inFlight: 1, queued: 1 });
+
+        backend.emit('data', rpc.createResponse('1', 42));
+        await first;
+
+        expect(backend.execute).toHaveBeenCalledTimes(2);
+        expect(xapi.queueStats).toMatchObject({ inFlight: 1, queued: 0 });
+      });
+
+      it('rejects requests when the queue is full', async () => {
+        xapi.execute('xGet', { Path: ['Status'] });
+        xapi.execute('xGet', { Path: ['Status'] });
+
+        await expect(xapi.execute('xGet', { Path: ['Status'] }))
+          .rejects.toBeInstanceOf(QueueFullError);
+        expect((xapi as any).requests).not.toHaveProperty('3');
+      });
+
+      it('releases requests answered synchronously', async () => {
+        jest.spyOn(backend, 'execute').mockImplementation((request) => {
+          backend.emit('data', rpc.createResponse(request.id!, 42));
+          return Promise.resolve();
+        });
+
+        await xapi.execute('xGet', { Path: ['Status'] });
+        await xapi.execute('xGet', { Path: ['Status'] });
+
+        expect(backend.execute).toHaveBeenCalledTimes(2);
+        expect(xapi.queueStats).toMatchObject({ inFlight: 0, queued: 0 });
+      });
+
+      it('rejects requests the backend fails to send', async () => {
+        jest.spyOn(backend, 'execute').mockImplementation(() => {
+          throw new Error('send failed');
+        });
+
+        await expect(xapi.execute('xGet', { Path: ['Status'] }))
+          .rejects.toThrow('send failed');
+        expect(xapi.queueStats).toMatchObject({ inFlight: 0, queued: 0 });
+      });
+
+      it('keeps the slot of timed out requests until answered', async () => {
+        jest.useFakeTimers();
+        const first = xapi.execute('xGet', { Path: ['Status'] }, { timeout: 100 });
+        const second = xapi.execute('xGet', { Path: ['Configuration'] });
+
+        jest.advanceTimersByTime(100);
+        jest.useRealTimers();
+        await expect(first).rejects.toBeInstanceOf(TimeoutError);
+        expect(backend.execute).toHaveBeenCalledTimes(1);
+        expect(xapi.queueStats).toMatchObject({ inFlight: 1, queued: 1 });
+
+        backend.emit('data', rpc.createResponse('1', 42));
+
+        expect(backend.execute).toHaveBeenCalledTimes(2);
+        backend.emit('data', rpc.createResponse('2', 43));
+        await expect(second).resolves.toEqual(43);
+      });
+
+      it('releases slots of timed out requests when the connection is lost', async () => {
+        jest.useFakeTimers();
+        const first = xapi.execute('xGet', { Path: ['Status'] }, { timeout: 100 });
+
+        jest.advanceTimersByTime(100);
+        jest.useRealTimers();
+        await expect(first).rejects.toBeInstanceOf(TimeoutError);
+        backend.emit('close');
+
+        expect(xapi.queueStats).toMatchObject({ inFlight: 0, queued: 0 });
+      });
+
+      it('removes aborted requests from the queue', async () => {
+        const { abort, signal } = createAbortSignal();
+        xapi.execute('xGet', { Path: ['Status'] });
+        const queued = xapi.execute('xGet', { Path: ['Status'] }, { signal });
+
+        abort();
+
+        await expect(queued).rejects.toBeInstanceOf(AbortError);
+        expect(xapi.queueStats).toMatchObject({ inFlight: 1, queued: 0 });
+      });
+    });
+
+    describe('abort signal', () => {
+      beforeEach(() => {
+        jest.spyOn(backend, 'execute').mockResolvedValue(undefined);
+      });
+
+      it('rejects with AbortError when aborted', async () => {
+        const { abort, signal } = createAbortSignal();
+        const result = xapi.command('Dial', { Number: 'user@example.com' }, undefined, {
+          signal,
+        });
+
+        abort();
+
+        await expect(result).rejects.toBeInstanceOf(AbortError);
+        expect((xapi as any).requests).toEqual({});
+      });
+
+      it('rejects without sending if already aborted', async () => {
+        const { abort, signal } = createAbortSignal();
+        abort();
+
+        const result = xapi.config.set('Audio DefaultVolume', 50, { signal });
+
+        await expect(result).rejects.toBeInstanceOf(AbortError);
+        expect(backend.execute).not.toHaveBeenCalled();
+      });
+
+      it('removes abort listener when settled', async () => {
+        const { emitter, signal } = createAbortSignal();
+        const result = xapi.doc('Status', { signal });
+
+        backend.emit('data', rpc.createResponse('1', {}));
+
+        await result;
+        expect(emitter.listenerCount('abort')).toEqual(0);
+      });
+    });
+  });
+
+  describe('.use()', () => {
+    let requests: XapiRequest[];
+
+    beforeEach(() => {
+      requests = [];
+      jest.spyOn(backend, 'execute').mockImplementation(async (request) => {
+        requests.push(request);
+        backend.emit('data', rpc.createResponse(request.id!, request.params));
+      });
+    });
+
+    it('can modify request params', async () => {
+      xapi.use((request, next) => next({
+        ...request,
+        params: { ...request.params, Extra: 'foo' },
+      }));
+
+      const result = await xapi.command('Dial', { Number: 'user@example.com' });
+
+      expect(result).toEqual({ Number: 'user@example.com', Extra: 'foo' });
+      expect(requests[0].params).toEqual({ Number: 'user@example.com', Extra: 'foo' });
+    });
+
+    it('can short-circuit with a result', async () => {
+      xapi.use(() => 42);
+
+      await expect(xapi.status.get('Audio Volume')).resolves.toEqual(42);
+      expect(backend.execute).not.toHaveBeenCalled();
+    });
+
+    it('can transform the result', async () => {
+      xapi.use(async (request, next) => {
+        const result = await next(request);
+        return { wrapped: result };
+      });
+
+      await expect(xapi.execute('xFoo', { Bar: 1 })).resolves.toEqual({
+        wrapped: { Bar: 1 },
+      });
+    });
+
+    it('can reject requests', async () => {
+      xapi.use((request) => {
+        throw new Error(`Not allowed: ${request.method}`);
+      });
+
+      await expect(xapi.command('SystemUnit Boot')).rejects.toThrow(
+        'Not allowed: xCommand/SystemUnit/Boot',
+      );
+      expect(backend.execute).not.toHaveBeenCalled();
+    });
+
+    it('invokes middleware in the order they are added', async () => {
+      const calls: string[] = [];
+      xapi.use(async (request, next) => {
+        calls.push('a:before');
+        const result = await next(request);
+        calls.push('a:after');
+        return result;
+      });
+      xapi.use(async (request, next) => {
+        calls.push('b:before');
+        const result = await next(request);
+        calls.push('b:after');
+        return result;
+      });
+
+      await xapi.execute('xFoo', {});
+
+      expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+    });
+
+    it('returns handler to remove middleware', async () => {
+      const middleware = jest.fn((request, next) => next(request));
+      const remove = xapi.use(middleware);
+
+      await xapi.execute('xFoo', {});
+      remove();
+      await xapi.execute('xFoo', {});
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(requests).toHaveLength(2);
+    });
   });
 
   describe('Components', () => {
@@ -225,7 +1095,7 @@ describe('XAPI', () => {
         expect(execStub).toHaveBeenCalledTimes(1);
         expect(execStub).toHaveBeenCalledWith('xCommand/Dial', {
           Number: 'user@example.com',
-        });
+        }, undefined);
 
         expect(execStub).toHaveNthReturnedWith(1, result);
       });
@@ -238,6 +1108,7 @@ describe('XAPI', () => {
           {
             PresentationSource: 1,
           },
+          undefined,
         );
       });
 
@@ -247,6 +1118,7 @@ describe('XAPI', () => {
         expect(execStub).toHaveBeenCalledWith(
           'xCommand/Foo/Bar/Baz',
           undefined,
+          undefined,
         );
       });
 
@@ -296,6 +1168,7 @@ describe('XAPI', () => {
             ConfigId: 'example',
             body,
           },
+          undefined,
         );
       });
 
@@ -309,6 +1182,7 @@ describe('XAPI', () => {
           {
             body,
           },
+          undefined,
         );
       });
 
@@ -322,6 +1196,7 @@ describe('XAPI', () => {
           {
             body,
           },
+          undefined,
         );
       });
     });
@@ -334,7 +1209,7 @@ describe('XAPI', () => {
           expect(execStub).toHaveBeenCalledTimes(1);
           expect(execStub).toHaveBeenCalledWith('xGet', {
             Path: ['Configuration', 'Audio', 'DefaultVolume'],
-          });
+          }, undefined);
 
           expect(execStub).toHaveNthReturnedWith(1, result);
         });
@@ -348,11 +1223,23 @@ describe('XAPI', () => {
           expect(execStub).toHaveBeenCalledWith('xSet', {
             Path: ['Configuration', 'Audio', 'DefaultVolume'],
             Value: 100,
-          });
+          }, undefined);
 
           expect(execStub).toHaveNthReturnedWith(1, result);
         });
       });
+
+      describe('.observe()', () => {
+        it('fetches the current configuration value', async () => {
+          const off = xapi.config.observe('Audio DefaultVolume', () => {});
+          await off.registration;
+          await new Promise((resolve) => setImmediate(resolve));
+
+          expect(execStub).toHaveBeenLastCalledWith('xGet', {
+            Path: ['Configuration', 'Audio', 'DefaultVolume'],
+          }, undefined);
+        });
+      });
     });
 
     describe('.doc', () => {
@@ -363,7 +1250,7 @@ describe('XAPI', () => {
         expect(execStub).toHaveBeenCalledWith('xDoc', {
           Path: ['Configuration'],
           Type: 'Schema',
-        });
+        }, undefined);
 
         expect(execStub).toHaveNthReturnedWith(1, result);
       });
@@ -382,6 +1269,22 @@ describe('XAPI', () => {
         });
       });
 
+      describe('.next()', () => {
+        it('resolves with the next event', async () => {
+          const result = xapi.event.next('UserInterface Message Prompt Response');
+
+          xapi.feedback.dispatch({
+            Event: {
+              UserInterface: {
+                Message: { Prompt: { Response: { OptionId: '1' } } },
+              },
+            },
+          });
+
+          expect(await result).toEqual({ OptionId: '1' });
+        });
+      });
+
       describe('.off()', () => {
         it('can de-register feedback', async () => {
           const handler = jest.fn();
@@ -406,11 +1309,190 @@ describe('XAPI', () => {
           expect(execStub).toHaveBeenCalledTimes(1);
           expect(execStub).toHaveBeenCalledWith('xGet', {
             Path: ['Status', 'Audio', 'Volume'],
-          });
+          }, undefined);
 
           expect(execStub).toHaveNthReturnedWith(1, result);
         });
       });
+
+      describe('.waitFor()', () => {
+        it('waits for pattern paths', async () => {
+          const result = xapi.status.waitFor(
+            'Call[*]/Status',
+            (status) => status === 'Connected',
+          );
+
+          xapi.feedback.dispatch({
+            Status: { Call: [{ id: '1', Status: 'Dialling' }] },
+          });
+          xapi.feedback.dispatch({
+            Status: { Call: [{ id: '1', Status: 'Connected' }] },
+          });
+
+          expect(await result).toEqual('Connected');
+        });
+      });
+
+      describe('.observe()', () => {
+        let respond: (result: any) => void;
+        let fail: (error: any) => void;
+
+        beforeEach(() => {
+          const execute = backend.execute as jest.Mock;
+          const subscribe = execute.getMockImplementation()!;
+          execute.mockImplementation(async (request) => {
+            if (request.method !== 'xGet') {
+              return subscribe(request);
+            }
+            respond = (result) => {
+              backend.emit('data', rpc.createResponse(request.id!, result));
+            };
+            fail = (error) => {
+              backend.emit('data', rpc.createErrorResponse(request.id!, error));
+            };
+          });
+        });
+
+        function flush() {
+          return new Promise((resolve) => setImmediate(resolve));
+        }
+
+        it('subscribes before fetching the current value', async () => {
+          const off = xapi.status.observe('Audio Volume', () => {});
+          await off.registration;
+          await flush();
+
+          const methods = execStub.mock.calls.map(([method]) => method);
+          expect(methods).toEqual(['xFeedback/Subscribe', 'xGet']);
+          expect(execStub).toHaveBeenLastCalledWith('xGet', {
+            Path: ['Status', 'Audio', 'Volume'],
+          }, undefined);
+        });
+
+        it('delivers current value followed by changes', async () => {
+          const listener = jest.fn();
+          const off = xapi.status.observe('Audio Volume', listener);
+          await off.registration;
+          await flush();
+
+          respond(50);
+          await flush();
+          xapi.feedback.dispatch({ Status: { Audio: { Volume: 60 } } });
+
+          expect(listener.mock.calls).toEqual([
+            [50, undefined],
+            [60, { Status: { Audio: { Volume: 60 } } }],
+          ]);
+        });
+
+        it('delivers feedback received right after the current value', async () => {
+          const listener = jest.fn();
+          const off = xapi.status.observe('Audio Volume', listener);
+          await off.registration;
+          await flush();
+
+          respond('50');
+          backend.emit('data', {
+            jsonrpc: '2.0',
+            method: 'xFeedback/Event',
+            params: { Status: { Audio: { Volume: '60' } } },
+          });
+          await flush();
+
+          expect(listener.mock.calls).toEqual([
+            ['50', undefined],
+            ['60', { Status: { Audio: { Volume: '60' } } }],
+          ]);
+        });
+
+        it('delivers the latest feedback received while fetching', async () => {
+          const listener = jest.fn();
+          const off = xapi.status.observe('Audio Volume', listener);
+          await off.registration;
+          await flush();
+
+          xapi.feedback.dispatch({ Status: { Audio: { Volume: 40 } } });
+          xapi.feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+          respond(40);
+          await flush();
+
+          expect(listener.mock.calls).toEqual([
+            [40, undefined],
+            [50, { Status: { Audio: { Volume: 50 } } }],
+          ]);
+        });
+
+        it('skips feedback equal to the current value', async () => {
+          const listener = jest.fn();
+          const off = xapi.status.observe('Audio Volume', listener);
+          await off.registration;
+          await flush();
+
+          xapi.feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+          respond(50);
+          await flush();
+
+          expect(listener.mock.calls).toEqual([[50, undefined]]);
+        });
+
+        it('reports listener errors on the current value', async () => {
+          const error = new Error('boom');
+          const onError = jest.fn();
+          const unhandled = jest.fn();
+          process.on('unhandledRejection', unhandled);
+          xapi.on('listenerError', onError);
+          const off = xapi.status.observe('Audio Volume', () => {
+            throw error;
+          });
+          await off.registration;
+          await flush();
+
+          xapi.feedback.dispatch({ Status: { Audio: { Volume: 60 } } });
+          respond(50);
+          await flush();
+          process.removeListener('unhandledRejection', unhandled);
+
+          expect(unhandled).not.toHaveBeenCalled();
+          expect(onError.mock.calls).toEqual([
+            ['Status/Audio/Volume', 50, error],
+            ['Status/Audio/Volume', 60, error],
+          ]);
+        });
+
+        it('delivers changes if fetching fails', async () => {
+          const listener = jest.fn();
+          const off = xapi.status.observe('Audio Volume', listener);
+          await off.registration;
+          await flush();
+
+          fail({ code: 3, message: 'No match on Path argument' });
+          await flush();
+          xapi.feedback.dispatch({ Status: { Audio: { Volume: 60 } } });
+
+          expect(listener).toHaveBeenCalledTimes(1);
+          expect(listener).toHaveBeenCalledWith(60, expect.anything());
+        });
+
+        it('can be cancelled before the current value arrives', async () => {
+          const listener = jest.fn();
+          const off = xapi.status.observe('Audio Volume', listener);
+          await off.registration;
+          await flush();
+
+          off();
+          respond(50);
+          await flush();
+
+          expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('returns an observable without listener', () => {
+          const observable = xapi.status.observe('Audio Volume');
+
+          expect(typeof observable.subscribe).toEqual('function');
+        });
+      });
     });
+
   });
 });
@@ -0,0 +1,138 @@
+import {
+  allowPaths,
+  denyPaths,
+  redactPaths,
+  sample,
+} from '../../src/xapi/interceptors';
+
+function run(interceptor: any, payload: any) {
+  const emit = jest.fn();
+  interceptor(payload, emit);
+  return emit;
+}
+
+describe('interceptors', () => {
+  describe('allowPaths()', () => {
+    it('keeps feedback on allowed paths', () => {
+      const emit = run(allowPaths(['Status/Audio']), {
+        Id: 1,
+        Status: { Audio: { Volume: 50 }, Standby: { State: 'Off' } },
+      });
+
+      expect(emit).toHaveBeenCalledWith({
+        Id: 1,
+        Status: { Audio: { Volume: 50 } },
+      });
+    });
+
+    it('discards payloads without allowed feedback', () => {
+      const emit = run(allowPaths(['Status/Audio']), {
+        Id: 1,
+        Status: { Standby: { State: 'Off' } },
+      });
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('supports wildcards and array elements', () => {
+      const emit = run(allowPaths(['Status/Call[*]/Status', 'Event/**']), {
+        Event: { UserInterface: { Extensions: { Panel: { Clicked: {} } } } },
+        Status: {
+          Call: [
+            { CallbackNumber: 'sip:a@b', Status: 'Connected', id: '3' },
+            { ghost: 'True', id: '2' },
+          ],
+        },
+      });
+
+      expect(emit).toHaveBeenCalledWith({
+        Event: { UserInterface: { Extensions: { Panel: { Clicked: {} } } } },
+        Status: {
+          Call: [{ Status: 'Connected', id: '3' }, { ghost: 'True', id: '2' }],
+        },
+      });
+    });
+
+    it('only keeps matching array elements', () => {
+      const emit = run(allowPaths(['Status/Call[3]']), {
+        Status: {
+          Call: [
+            { Status: 'Connected', id: '3' },
+            { Status: 'Dialling', id: '4' },
+          ],
+        },
+      });
+
+      expect(emit).toHaveBeenCalledWith({
+        Status: { Call: [{ Status: 'Connected', id: '3' }] },
+      });
+    });
+  });
+
+  describe('denyPaths()', () => {
+    it('removes feedback on denied paths', () => {
+      const emit = run(denyPaths(['Status/RoomAnalytics']), {
+        Id: 1,
+        Status: { Audio: { Volume: 50 }, RoomAnalytics: { PeopleCount: 2 } },
+      });
+
+      expect(emit).toHaveBeenCalledWith({
+        Id: 1,
+        Status: { Audio: { Volume: 50 } },
+      });
+    });
+
+    it('discards payloads with only denied feedback', () => {
+      const emit = run(denyPaths(['Status/RoomAnalytics/*']), {
+        Status: { RoomAnalytics: { PeopleCount: 2 } },
+      });
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redactPaths()', () => {
+    it('replaces values on redacted paths', () => {
+      const payload = {
+        Id: 1,
+        Status: {
+          Call: [{ RemoteNumber: '12345', Status: 'Connected', id: '3' }],
+        },
+      };
+      const emit = run(redactPaths(['Status/Call[*]/RemoteNumber']), payload);
+
+      expect(emit).toHaveBeenCalledWith({
+        Id: 1,
+        Status: {
+          Call: [{ RemoteNumber: '***', Status: 'Connected', id: '3' }],
+        },
+      });
+      expect(payload.Status.Call[0].RemoteNumber).toEqual('12345');
+    });
+
+    it('supports a custom replacement', () => {
+      const emit = run(redactPaths(['Status/Network'], null), {
+        Status: { Network: [{ IPv4: { Address: '10.0.0.1' }, id: '1' }] },
+      });
+
+      expect(emit).toHaveBeenCalledWith({ Status: { Network: null } });
+    });
+  });
+
+  describe('sample()', () => {
+    it('lets through payloads according to the rate', () => {
+      const random = jest
+        .fn()
+        .mockReturnValueOnce(0.05)
+        .mockReturnValueOnce(0.5);
+      const interceptor = sample(0.1, random);
+      const emit = jest.fn();
+
+      interceptor({ Status: {} }, emit);
+      interceptor({ Event: {} }, emit);
+
+      expect(emit).toHaveBeenCalledTimes(1);
+      expect(emit).toHaveBeenCalledWith({ Status: {} });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { limitListener } from '../../src/xapi/limit';
+
+describe('limitListener()', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('passes all values without options', () => {
+    const spy = jest.fn();
+    const { listener } = limitListener(spy);
+
+    listener(1, {});
+    listener(1, {});
+
+    expect(spy.mock.calls).toEqual([[1, {}], [1, {}]]);
+  });
+
+  describe('distinct', () => {
+    it('skips values equal to the previous value', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, { distinct: true });
+
+      [1, 1, 2, 2, 1].forEach((value) => listener(value, {}));
+
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([1, 2, 1]);
+    });
+
+    it('compares objects structurally', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, { distinct: true });
+
+      listener({ Volume: 50 }, {});
+      listener({ Volume: 50 }, {});
+      listener({ Volume: 60 }, {});
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('accepts a custom comparison', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, {
+        distinct: (a, b) => Math.abs(a - b) < 5,
+      });
+
+      [50, 52, 54, 56].forEach((value) => listener(value, {}));
+
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([50, 56]);
+    });
+
+    it('compares values per matched path', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, { distinct: true });
+      const first = { indices: [1], path: 'Status/Call[1]/Status' };
+      const second = { indices: [2], path: 'Status/Call[2]/Status' };
+
+      listener('Connected', {}, first);
+      listener('Connected', {}, second);
+      listener('Connected', {}, first);
+
+      expect(spy.mock.calls.map(([, , match]) => match)).toEqual([
+        first,
+        second,
+      ]);
+    });
+  });
+
+  describe('throttle', () => {
+    it('delivers the first value and the latest value per period', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, { throttle: 100 });
+
+      [1, 2, 3].forEach((value) => listener(value, {}));
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([1]);
+
+      jest.advanceTimersByTime(100);
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([1, 3]);
+
+      jest.advanceTimersByTime(100);
+      listener(4, {});
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([1, 3, 4]);
+    });
+
+    it('throttles each matched path separately', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, { throttle: 100 });
+      const first = { indices: [1], path: 'Status/Call[1]/Duration' };
+      const second = { indices: [2], path: 'Status/Call[2]/Duration' };
+
+      listener(1, {}, first);
+      listener(10, {}, second);
+      listener(2, {}, first);
+      listener(11, {}, second);
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([1, 10]);
+
+      jest.advanceTimersByTime(100);
+      expect(spy.mock.calls.map(([value]) => value)).toEqual([1, 10, 2, 11]);
+    });
+  });
+
+  describe('debounce', () => {
+    it('delivers the latest value after a quiet period', () => {
+      const spy = jest.fn();
+      const { listener } = limitListener(spy, { debounce: 100 });
+
+      listener(1, {});
+      jest.advanceTimersByTime(50);
+      listener(2, {});
+      jest.advanceTimersByTime(50);
+      expect(spy).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(50);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(2, {});
+    });
+  });
+
+  it('cancels pending invocations', () => {
+    const spy = jest.fn();
+    const { cancel, listener } = limitListener(spy, { debounce: 100 });
+
+    listener(1, {});
+    cancel();
+    jest.advanceTimersByTime(100);
+
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+
+import { AbortError, TimeoutError } from '../../src/xapi/exc';
+import {
+  toAsyncIterator,
+  toObservable,
+  toPromise,
+} from '../../src/xapi/observable';
+import { Listener } from '../../src/xapi/types';
+
+describe('observable', () => {
+  let listeners: Listener<number>[];
+  let off: jest.Mock;
+  let registration: Promise<any>;
+
+  function subscribe(listener: Listener<number>) {
+    listeners.push(listener);
+    return Object.assign(off, { registration });
+  }
+
+  function emit(value: number) {
+    listeners.forEach((listener) => listener(value, {}));
+  }
+
+  beforeEach(() => {
+    listeners = [];
+    off = jest.fn();
+    registration = Promise.resolve({ Id: 0 });
+  });
+
+  describe('toAsyncIterator()', () => {
+    it('yields emitted values', async () => {
+      const iterator = toAsyncIterator(subscribe);
+
+      const first = iterator.next();
+      emit(1);
+      emit(2);
+
+      expect(await first).toEqual({ done: false, value: 1 });
+      expect(await iterator.next()).toEqual({ done: false, value: 2 });
+    });
+
+    it('is async iterable', () => {
+      const iterator = toAsyncIterator(subscribe);
+
+      expect(iterator[Symbol.asyncIterator]()).toBe(iterator);
+    });
+
+    it('unsubscribes on return()', async () => {
+      const iterator = toAsyncIterator(subscribe);
+      const pending = iterator.next();
+
+      expect(await iterator.return!()).toEqual({ done: true, value: undefined });
+      expect(off).toHaveBeenCalledTimes(1);
+      expect(await pending).toEqual({ done: true, value: undefined });
+
+      emit(1);
+      expect(await iterator.next()).toEqual({ done: true, value: undefined });
+    });
+
+    it('rejects when registration fails', async () => {
+      const error = new Error('registration failed');
+      registration = Promise.reject(error);
+      const iterator = toAsyncIterator(subscribe);
+
+      await expect(iterator.next()).rejects.toBe(error);
+    });
+  });
+
+  describe('toObservable()', () => {
+    it('implements Symbol.observable interop', () => {
+      const observable: any = toObservable(subscribe);
+      const key = (Symbol as any).observable || '@@observable';
+
+      expect(observable[key]()).toBe(observable);
+    });
+
+    it('delivers values to observer', () => {
+      const next = jest.fn();
+      toObservable(subscribe).subscribe({ next });
+
+      emit(1);
+      emit(2);
+
+      expect(next.mock.calls).toEqual([[1], [2]]);
+    });
+
+    it('accepts a next function', () => {
+      const next = jest.fn();
+      toObservable(subscribe).subscribe(next);
+
+      emit(1);
+
+      expect(next).toHaveBeenCalledWith(1);
+    });
+
+    it('unsubscribes from feedback', () => {
+      const next = jest.fn();
+      const subscription = toObservable(subscribe).subscribe(next);
+
+      subscription.unsubscribe();
+      emit(1);
+
+      expect(off).toHaveBeenCalledTimes(1);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('signals error when registration fails', async () => {
+      const error = new Error('registration failed');
+      registration = Promise.reject(error);
+      const observer = { error: jest.fn(), next: jest.fn() };
+
+      toObservable(subscribe).subscribe(observer);
+      await registration.catch(() => undefined);
+
+      expect(observer.error).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('toPromise()', () => {
+    it('resolves with the first value', async () => {
+      const result = toPromise(subscribe, 'xFeedback/Status/Foo');
+
+      emit(1);
+      emit(2);
+
+      expect(await result).toEqual(1);
+      expect(off).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves with the first value matching the predicate', async () => {
+      const result = toPromise(subscribe, 'xFeedback/Status/Foo', (v) => v > 1);
+
+      emit(1);
+      expect(off).not.toHaveBeenCalled();
+      emit(2);
+
+      expect(await result).toEqual(2);
+      expect(off).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects if the predicate throws', async () => {
+      const error = new Error('bad predicate');
+      const result = toPromise(subscribe, 'xFeedback/Status/Foo', () => {
+        throw error;
+      });
+
+      emit(1);
+
+      await expect(result).rejects.toBe(error);
+      expect(off).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects on timeout', async () => {
+      jest.useFakeTimers();
+      const result = toPromise(subscribe, 'xFeedback/Status/Foo', undefined, {
+        timeout: 1000,
+      });
+
+      jest.advanceTimersByTime(1000);
+      jest.useRealTimers();
+
+      await expect(result).rejects.toBeInstanceOf(TimeoutError);
+      expect(off).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects on abort', async () => {
+      const emitter = new EventEmitter();
+      const signal = {
+        aborted: false,
+        addEventListener: (type: 'abort', listener: () => void) => {
+          emitter.on(type, listener);
+        },
+        removeEventListener: (type: 'abort', listener: () => void) => {
+          emitter.removeListener(type, listener);
+        },
+      };
+      const result = toPromise(subscribe, 'xFeedback/Status/Foo', undefined, {
+        signal,
+      });
+
+      signal.aborted = true;
+      emitter.emit('abort');
+
+      await expect(result).rejects.toBeInstanceOf(AbortError);
+      expect(off).toHaveBeenCalledTimes(1);
+      expect(emitter.listenerCount('abort')).toEqual(0);
+    });
+
+    it('rejects immediately if already aborted', async () => {
+      const signal = {
+        aborted: true,
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn(),
+      };
+
+      await expect(
+        toPromise(subscribe, 'xFeedback/Status/Foo', undefined, { signal }),
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(listeners).toHaveLength(0);
+    });
+
+    it('rejects when registration fails', async () => {
+      const error = new Error('registration failed');
+      registration = Promise.reject(error);
+
+      await expect(toPromise(subscribe, 'xFeedback/Status/Foo')).rejects.toBe(
+        error,
+      );
+      expect(off).toHaveBeenCalledTimes(1);
+    });
+  });
+});
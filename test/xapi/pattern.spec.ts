@@ -0,0 +1,112 @@
+import normalizePath from '../../src/xapi/normalizePath';
+import {
+  formatPath,
+  isPattern,
+  matchPattern,
+  patternPrefix,
+} from '../../src/xapi/pattern';
+
+describe('pattern', () => {
+  describe('isPattern()', () => {
+    it('detects wildcards', () => {
+      expect(isPattern(normalizePath('Status/Call[*]/Status'))).toBe(true);
+      expect(isPattern(normalizePath('Event/UserInterface/**'))).toBe(true);
+      expect(isPattern(normalizePath('Status/Call[42]/Status'))).toBe(false);
+    });
+  });
+
+  describe('patternPrefix()', () => {
+    it('returns elements up to the first wildcard', () => {
+      expect(patternPrefix(normalizePath('Status/Call[*]/Status'))).toEqual([
+        'Status',
+        'Call',
+      ]);
+      expect(patternPrefix(normalizePath('Status/Audio/Volume'))).toEqual([
+        'Status',
+        'Audio',
+        'Volume',
+      ]);
+    });
+  });
+
+  describe('formatPath()', () => {
+    it('uses brackets for indices', () => {
+      expect(formatPath(['Status', 'Call', 42, 'Status'])).toEqual(
+        'Status/Call[42]/Status',
+      );
+    });
+  });
+
+  describe('matchPattern()', () => {
+    it('matches single elements with *', () => {
+      expect(
+        matchPattern(normalizePath('Status/Call[*]/Status'), [
+          'Status',
+          'Call',
+          42,
+          'Status',
+        ]),
+      ).toEqual({ indices: [42], path: 'Status/Call[42]/Status' });
+    });
+
+    it('compares elements case insensitively', () => {
+      expect(
+        matchPattern(normalizePath('status/call[*]/status'), [
+          'Status',
+          'Call',
+          42,
+          'Status',
+        ]),
+      ).not.toBeNull();
+    });
+
+    it('does not match other paths', () => {
+      const pattern = normalizePath('Status/Call[*]/Status');
+
+      expect(matchPattern(pattern, ['Status', 'Call', 42])).toBeNull();
+      expect(
+        matchPattern(pattern, ['Status', 'Call', 42, 'Duration']),
+      ).toBeNull();
+      expect(
+        matchPattern(pattern, ['Status', 'Call', 42, 'Status', 'Foo']),
+      ).toBeNull();
+    });
+
+    it('matches any number of elements with **', () => {
+      const pattern = normalizePath('Event/UserInterface/Extensions/**');
+
+      expect(
+        matchPattern(pattern, ['Event', 'UserInterface', 'Extensions']),
+      ).toEqual({ indices: [], path: 'Event/UserInterface/Extensions' });
+      expect(
+        matchPattern(pattern, [
+          'Event',
+          'UserInterface',
+          'Extensions',
+          'Widget',
+          'Action',
+        ]),
+      ).toEqual({
+        indices: [],
+        path: 'Event/UserInterface/Extensions/Widget/Action',
+      });
+      expect(matchPattern(pattern, ['Event', 'UserInterface'])).toBeNull();
+    });
+
+    it('captures indices matched by **', () => {
+      expect(
+        matchPattern(normalizePath('Status/**/Connected'), [
+          'Status',
+          'Video',
+          'Input',
+          'Connector',
+          2,
+          'Connected',
+        ]),
+      ).toEqual({
+        indices: [2],
+        path: 'Status/Video/Input/Connector[2]/Connected',
+      });
+    });
+  });
+});
@@ -15,7 +15,7 @@ describe('Proxy', () => {
       xapi.Command.Audio.Volume.Mute();
 
       expect(execute).toHaveBeenCalledTimes(1);
-      expect(execute).toHaveBeenCalledWith('xCommand/Audio/Volume/Mute', undefined);
+      expect(execute).toHaveBeenCalledWith('xCommand/Audio/Volume/Mute', undefined, undefined);
     });
 
     it('can proxy xapi.command with args', () => {
@@ -24,7 +24,7 @@ describe('Proxy', () => {
       expect(execute).toHaveBeenCalledTimes(1);
       expect(execute).toHaveBeenCalledWith('xCommand/Dial', {
         Number: 'user@example.com',
-      });
+      }, undefined);
     });
   });
 
@@ -35,7 +35,7 @@ describe('Proxy', () => {
       expect(execute).toHaveBeenCalledTimes(1);
       expect(execute).toHaveBeenCalledWith('xGet', {
         Path: ['Configuration', 'Audio', 'DefaultVolume'],
-      });
+      }, undefined);
     });
 
     it('can proxy xapi.config..set()', () => {
@@ -45,7 +45,7 @@ describe('Proxy', () => {
       expect(execute).toHaveBeenCalledWith('xSet', {
         Path: ['Configuration', 'Audio', 'DefaultVolume'],
         Value: 50,
-      });
+      }, undefined);
     });
 
     it('can proxy xapi.config..set() with array index', () => {
@@ -55,7 +55,7 @@ describe('Proxy', () => {
       expect(execute).toHaveBeenCalledWith('xSet', {
         Path: ['Configuration', 'FacilityService', 'Service', 3, 'Number'],
         Value: 'user@example.com',
-      });
+      }, undefined);
     });
 
     it('can proxy feedback registration xapi.config..on()', () => {
@@ -88,7 +88,7 @@ describe('Proxy', () => {
       expect(execute).toHaveBeenCalledTimes(1);
       expect(execute).toHaveBeenCalledWith('xGet', {
         Path: ['Status', 'Audio', 'Volume'],
-      });
+      }, undefined);
     });
 
     it('can proxy xapi.status..get() with array index', () => {
@@ -97,7 +97,7 @@ describe('Proxy', () => {
       expect(execute).toHaveBeenCalledTimes(1);
       expect(execute).toHaveBeenCalledWith('xGet', {
         Path: ['Status', 'Video', 'Input', 'Connector', 2, 'Type'],
-      });
+      }, undefined);
     });
 
     it('can proxy feedback registration xapi.status..on()', () => {
@@ -109,5 +109,46 @@ describe('Proxy', () => {
         Query: ['Status', 'Audio', 'Volume'],
       });
     });
+
+    it('can proxy xapi.status..iterate()', async () => {
+      const iterator = xapi.Status.Audio.Volume.iterate();
+
+      expect(execute).toHaveBeenCalledWith('xFeedback/Subscribe', {
+        Query: ['Status', 'Audio', 'Volume'],
+      });
+
+      const next = iterator.next();
+      xapi.feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      expect(await next).toEqual({ done: false, value: 50 });
+
+      await iterator.return();
+    });
+
+    it('can proxy xapi.status..waitFor()', async () => {
+      const result = xapi.Status.Call[42].Status.waitFor(
+        (status: string) => status === 'Connected',
+      );
+
+      xapi.feedback.dispatch({
+        Status: { Call: [{ id: '42', Status: 'Dialling' }] },
+      });
+      xapi.feedback.dispatch({
+        Status: { Call: [{ id: '42', Status: 'Connected' }] },
+      });
+
+      expect(await result).toEqual('Connected');
+    });
+
+    it('can proxy xapi.status..observe()', () => {
+      const spy = jest.fn();
+      const subscription = xapi.Status.Audio.Volume.observe().subscribe(spy);
+
+      xapi.feedback.dispatch({ Status: { Audio: { Volume: 50 } } });
+      subscription.unsubscribe();
+      xapi.feedback.dispatch({ Status: { Audio: { Volume: 60 } } });
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy).toHaveBeenCalledWith(50);
+    });
   });
 });
@@ -0,0 +1,117 @@
+import { QueueFullError } from '../../src/xapi/exc';
+import RequestQueue from '../../src/xapi/queue';
+
+describe('RequestQueue', () => {
+  it('starts requests immediately by default', () => {
+    const queue = new RequestQueue();
+    const runs = [jest.fn(), jest.fn(), jest.fn()];
+
+    runs.forEach((run) => queue.schedule(run));
+
+    runs.forEach((run) => expect(run).toHaveBeenCalledTimes(1));
+    expect(queue.stats).toMatchObject({ inFlight: 3, queued: 0 });
+  });
+
+  it('limits number of in-flight requests', () => {
+    const queue = new RequestQueue({ maxInFlight: 1 });
+    const runs = [jest.fn(), jest.fn()];
+
+    const [release] = runs.map((run) => queue.schedule(run));
+
+    expect(runs[0]).toHaveBeenCalled();
+    expect(runs[1]).not.toHaveBeenCalled();
+    expect(queue.stats).toEqual({
+      inFlight: 1,
+      maxInFlight: 1,
+      maxQueued: Infinity,
+      queued: 1,
+    });
+
+    release();
+
+    expect(runs[1]).toHaveBeenCalled();
+    expect(queue.stats).toMatchObject({ inFlight: 1, queued: 0 });
+  });
+
+  it('starts higher priority requests first', () => {
+    const queue = new RequestQueue({ maxInFlight: 1 });
+    const order: string[] = [];
+
+    const release = queue.schedule(() => order.push('first'));
+    queue.schedule(() => order.push('low'), 0);
+    queue.schedule(() => order.push('high'), 10);
+    queue.schedule(() => order.push('low2'), 0);
+
+    release();
+    release();
+
+    expect(order).toEqual(['first', 'high']);
+  });
+
+  it('throws QueueFullError when the queue is full', () => {
+    const queue = new RequestQueue({ maxInFlight: 1, maxQueued: 1 });
+
+    queue.schedule(jest.fn());
+    queue.schedule(jest.fn());
+
+    expect(() => queue.schedule(jest.fn())).toThrow(QueueFullError);
+  });
+
+  it('removes cancelled requests from the queue', () => {
+    const queue = new RequestQueue({ maxInFlight: 1 });
+    const run = jest.fn();
+
+    const release = queue.schedule(jest.fn());
+    const cancel = queue.schedule(run);
+    cancel();
+    release();
+
+    expect(run).not.toHaveBeenCalled();
+    expect(queue.stats).toMatchObject({ inFlight: 0, queued: 0 });
+  });
+
+  it('ignores releasing a request twice', () => {
+    const queue = new RequestQueue({ maxInFlight: 2 });
+
+    const release = queue.schedule(jest.fn());
+    queue.schedule(jest.fn());
+    release();
+    release();
+
+    expect(queue.stats).toMatchObject({ inFlight: 1 });
+  });
+
+  it('passes the release function to requests completing synchronously', () => {
+    const queue = new RequestQueue({ maxInFlight: 1 });
+    const second = jest.fn();
+
+    queue.schedule((release) => release());
+    queue.schedule(second);
+
+    expect(second).toHaveBeenCalled();
+    expect(queue.stats).toMatchObject({ inFlight: 1, queued: 0 });
+  });
+
+  it('releases requests failing to start', () => {
+    const queue = new RequestQueue({ maxInFlight: 1 });
+    const third = jest.fn();
+
+    const release = queue.schedule(jest.fn());
+    queue.schedule(() => {
+      throw new Error('failed to start');
+    });
+    queue.schedule(third);
+
+    expect(() => release()).not.toThrow();
+    expect(third).toHaveBeenCalled();
+    expect(queue.stats).toMatchObject({ inFlight: 1, queued: 0 });
+  });
+
+  it('resolves priority of feedback requests', () => {
+    const queue = new RequestQueue({ feedbackPriority: 5 });
+
+    expect(queue.priorityOf('xFeedback/Subscribe')).toEqual(5);
+    expect(queue.priorityOf('xCommand/Dial')).toEqual(0);
+    expect(queue.priorityOf('xFeedback/Subscribe', 1)).toEqual(1);
+  });
+});
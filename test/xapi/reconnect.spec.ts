@@ -0,0 +1,51 @@
+import {
+  backoffDelay,
+  defaultReconnectPolicy,
+  resolveReconnectPolicy,
+} from '../../src/xapi/reconnect';
+
+describe('reconnect', () => {
+  describe('resolveReconnectPolicy()', () => {
+    it('returns null when disabled', () => {
+      expect(resolveReconnectPolicy()).toBeNull();
+      expect(resolveReconnectPolicy(false)).toBeNull();
+    });
+
+    it('returns default policy for true', () => {
+      expect(resolveReconnectPolicy(true)).toEqual(defaultReconnectPolicy);
+    });
+
+    it('merges options with defaults', () => {
+      expect(resolveReconnectPolicy({ maxAttempts: 3 })).toEqual({
+        ...defaultReconnectPolicy,
+        maxAttempts: 3,
+      });
+    });
+  });
+
+  describe('backoffDelay()', () => {
+    const policy = {
+      factor: 2,
+      initialDelay: 100,
+      jitter: 0,
+      maxAttempts: Infinity,
+      maxDelay: 1000,
+    };
+
+    it('increases exponentially', () => {
+      const delays = [1, 2, 3, 4].map((n) => backoffDelay(policy, n));
+      expect(delays).toEqual([100, 200, 400, 800]);
+    });
+
+    it('is capped by maxDelay', () => {
+      expect(backoffDelay(policy, 10)).toEqual(1000);
+    });
+
+    it('applies jitter', () => {
+      const jittery = { ...policy, jitter: 0.5 };
+      expect(backoffDelay(jittery, 1, () => 0)).toEqual(50);
+      expect(backoffDelay(jittery, 1, () => 0.5)).toEqual(100);
+      expect(backoffDelay(jittery, 1, () => 0.99)).toEqual(149);
+    });
+  });
+});
@@ -69,6 +69,25 @@ describe('xapi/rpc', () => {
       expect(() => createCommandResponse(data)).toThrow(ParameterError);
     });
 
+    it('includes the offending parameter in parameter errors', () => {
+      const data = {
+        CommandResponse: {
+          OptionKeyRemoveResult: {
+            Type: { Value: 'Invalid value' },
+            status: 'ParameterError',
+          },
+        },
+      };
+
+      expect(() => createCommandResponse(data)).toThrow(
+        expect.objectContaining({
+          message: 'Type: Invalid value',
+          parameter: 'Type',
+          reason: 'Invalid value',
+        }),
+      );
+    });
+
     it('handles Reason error', () => {
       const data = JSON.parse(`
         {
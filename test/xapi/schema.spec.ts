@@ -0,0 +1,333 @@
+import Backend from '../../src/backend';
+import XAPI from '../../src/xapi';
+import {
+  IllegalValueError,
+  ParameterError,
+  XAPIError,
+} from '../../src/xapi/exc';
+import Schema, {
+  describeValueErrors,
+  validateRequests,
+} from '../../src/xapi/schema';
+
+const commandNode = {
+  Level: {
+    ValueSpace: { max: '100', min: '0', required: 'True', type: 'Integer' },
+  },
+  command: 'True',
+};
+
+const alertNode = {
+  Duration: {
+    ValueSpace: { max: '3600', min: '0', type: 'Integer' },
+    required: 'False',
+  },
+  Text: {
+    ValueSpace: { maxLength: '255', minLength: '0', type: 'String' },
+    required: 'True',
+  },
+  command: 'True',
+  description: 'Display a message on screen.',
+};
+
+const configNode = {
+  DefaultVolume: {
+    ValueSpace: { default: '50', max: '100', min: '0', type: 'Integer' },
+  },
+  Output: {
+    Line: [
+      {
+        Mode: { ValueSpace: { type: 'Literal', Value: ['On', 'Off'] } },
+      },
+    ],
+  },
+};
+
+describe('Schema', () => {
+  let xapi: XAPI;
+  let schema: Schema;
+  let docStub: jest.SpyInstance;
+
+  beforeEach(() => {
+    xapi = new XAPI(new Backend());
+    schema = new Schema(xapi);
+    docStub = jest
+      .spyOn(XAPI.prototype, 'doc')
+      .mockImplementation((path: any) => {
+        switch (path.join('/')) {
+          case 'Command/Audio/Volume/Set':
+            return Promise.resolve(commandNode);
+          case 'Configuration/Audio':
+            return Promise.resolve(configNode);
+          case 'Configuration/Audio/Output/Line':
+            return Promise.resolve(configNode.Output.Line);
+          default:
+            return Promise.reject(
+              new XAPIError(3, 'No match on Path argument'),
+            );
+        }
+      });
+  });
+
+  afterEach(() => {
+    docStub.mockRestore();
+  });
+
+  describe('.valueSpace()', () => {
+    it('looks up command parameters', async () => {
+      const valueSpace = await schema.valueSpace([
+        'Command',
+        'Audio',
+        'Volume',
+        'Set',
+        'level',
+      ]);
+
+      expect(docStub).toHaveBeenCalledWith([
+        'Command',
+        'Audio',
+        'Volume',
+        'Set',
+      ]);
+      expect(valueSpace).toEqual({
+        max: 100,
+        min: 0,
+        required: true,
+        type: 'Integer',
+      });
+    });
+
+    it('ignores array indices', async () => {
+      const valueSpace = await schema.valueSpace([
+        'Configuration',
+        'Audio',
+        'Output',
+        'Line',
+        1,
+        'Mode',
+      ]);
+
+      expect(valueSpace).toEqual({ literals: ['On', 'Off'], type: 'Literal' });
+    });
+
+    it('caches schema nodes', async () => {
+      await schema.valueSpace(['Configuration', 'Audio', 'DefaultVolume']);
+      await schema.valueSpace(['Configuration', 'Audio', 'DefaultVolume']);
+
+      expect(docStub).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves undefined for unknown paths', async () => {
+      const valueSpace = await schema.valueSpace([
+        'Configuration',
+        'Foo',
+        'Bar',
+      ]);
+      expect(valueSpace).toBeUndefined();
+    });
+  });
+
+  describe('describeValueErrors()', () => {
+    it('describes the accepted values of command parameters', async () => {
+      const middleware = describeValueErrors(schema);
+      const next = () =>
+        Promise.reject(
+          new ParameterError('Out of range', { parameter: 'Level' }),
+        );
+
+      const error = await middleware(
+        { jsonrpc: '2.0', method: 'xCommand/Audio/Volume/Set', params: {} },
+        next,
+      ).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(ParameterError);
+      expect(error).toMatchObject({
+        message: 'Level must be 0..100',
+        parameter: 'Level',
+        reason: 'Out of range',
+        valueSpace: { max: 100, min: 0, type: 'Integer' },
+      });
+    });
+
+    it('describes the accepted values of configurations', async () => {
+      const middleware = describeValueErrors(schema);
+      const request = {
+        jsonrpc: '2.0',
+        method: 'xSet',
+        params: {
+          Path: ['Configuration', 'Audio', 'DefaultVolume'],
+          Value: 200,
+        },
+      };
+      const next = () =>
+        Promise.reject(
+          new IllegalValueError('Illegal value', {
+            parameter: 'Configuration/Audio/DefaultVolume',
+          }),
+        );
+
+      const error = await middleware(request, next).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(IllegalValueError);
+      expect(error.message).toEqual(
+        'Configuration/Audio/DefaultVolume must be 0..100',
+      );
+    });
+
+    it('passes on other errors', async () => {
+      const middleware = describeValueErrors(schema);
+      const original = new XAPIError(1, 'Command failed');
+
+      const error = await middleware(
+        { jsonrpc: '2.0', method: 'xCommand/Audio/Volume/Set', params: {} },
+        () => Promise.reject(original),
+      ).catch((e: any) => e);
+
+      expect(error).toBe(original);
+      expect(docStub).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schema option', () => {
+    it('describes parameter errors from the backend', async () => {
+      const backend = new Backend();
+      xapi = new XAPI(backend, { schema: true });
+      jest.spyOn(backend, 'execute').mockImplementation((request: any) => {
+        backend.emit('data', {
+          error: {
+            code: 4,
+            data: { parameter: 'Level', reason: 'Out of range' },
+            message: 'Level: Out of range',
+          },
+          id: request.id,
+          jsonrpc: '2.0',
+        });
+        return Promise.resolve();
+      });
+
+      const result = xapi.command('Audio Volume Set', { Level: 200 });
+
+      await expect(result).rejects.toBeInstanceOf(ParameterError);
+      await expect(result).rejects.toMatchObject({
+        message: 'Level must be 0..100',
+        method: 'xCommand/Audio/Volume/Set',
+        params: { Level: 200 },
+      });
+    });
+  });
+
+  describe('validateRequests()', () => {
+    const document = {
+      Command: { Message: { Alert: { Display: alertNode } } },
+      Configuration: { Audio: configNode },
+    };
+    let middleware: ReturnType<typeof validateRequests>;
+    let next: jest.Mock;
+
+    beforeEach(() => {
+      middleware = validateRequests(new Schema(xapi, document));
+      next = jest.fn().mockResolvedValue({ status: 'OK' });
+    });
+
+    const command = (params: any) => ({
+      jsonrpc: '2.0',
+      method: 'xCommand/Message/Alert/Display',
+      params,
+    });
+
+    it('passes valid requests on', async () => {
+      const request = command({ Duration: 10, Text: 'Hello' });
+
+      await expect(middleware(request, next)).resolves.toEqual({
+        status: 'OK',
+      });
+      expect(next).toHaveBeenCalledWith(request);
+      expect(docStub).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown parameters', async () => {
+      const request = command({ Durration: 10, Text: 'Hello' });
+      const result = middleware(request, next);
+
+      await expect(result).rejects.toBeInstanceOf(ParameterError);
+      await expect(result).rejects.toMatchObject({
+        message: 'Durration: Unknown parameter',
+        parameter: 'Durration',
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects missing required parameters', async () => {
+      const result = middleware(command({ Duration: 10 }), next);
+
+      await expect(result).rejects.toMatchObject({
+        message: 'Text: Missing required parameter',
+        parameter: 'Text',
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid parameter values', async () => {
+      const request = command({ Duration: 7200, Text: 'Hi' });
+      const result = middleware(request, next);
+
+      await expect(result).rejects.toMatchObject({
+        message: 'Duration must be 0..3600',
+        reason: 'Out of range',
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid configuration values', async () => {
+      const result = middleware(
+        {
+          jsonrpc: '2.0',
+          method: 'xSet',
+          params: {
+            Path: ['Configuration', 'Audio', 'DefaultVolume'],
+            Value: 200,
+          },
+        },
+        next,
+      );
+
+      await expect(result).rejects.toBeInstanceOf(IllegalValueError);
+      await expect(result).rejects.toMatchObject({
+        message: 'Configuration/Audio/DefaultVolume must be 0..100',
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('passes on requests not found in the schema', async () => {
+      const request = {
+        jsonrpc: '2.0',
+        method: 'xCommand/Foo/Bar',
+        params: { Baz: 1 },
+      };
+
+      await middleware(request, next);
+      expect(next).toHaveBeenCalledWith(request);
+    });
+  });
+
+  describe('validate option', () => {
+    it('rejects invalid requests without sending them', async () => {
+      const backend = new Backend();
+      const execute = jest.spyOn(backend, 'execute');
+      xapi = new XAPI(backend, { validate: true });
+
+      const result = xapi.command('Audio Volume Set', { Level: 200 });
+
+      await expect(result).rejects.toMatchObject({
+        message: 'Level must be 0..100',
+      });
+      expect(docStub).toHaveBeenCalledWith([
+        'Command',
+        'Audio',
+        'Volume',
+        'Set',
+      ]);
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import Backend from '../../src/backend';
+import XAPI from '../../src/xapi';
+import Store from '../../src/xapi/store';
+
+describe('Store', () => {
+  let xapi: XAPI;
+  let executeStub: jest.SpyInstance;
+  let values: { [path: string]: any };
+
+  beforeEach(() => {
+    xapi = new XAPI(new Backend());
+    values = {
+      'Status/Audio': { Volume: '50' },
+      'Status/Call': [{ id: '1', Status: 'Connected' }],
+    };
+
+    let nextSubscriptionId = 0;
+    executeStub = jest
+      .spyOn(XAPI.prototype, 'execute')
+      .mockImplementation((method, params: any) => {
+        switch (method) {
+          case 'xFeedback/Subscribe': {
+            const id = nextSubscriptionId;
+            nextSubscriptionId += 1;
+            return Promise.resolve({ Id: id });
+          }
+          case 'xGet':
+            return Promise.resolve(values[params.Path.join('/')]);
+          default:
+            return Promise.resolve({});
+        }
+      });
+  });
+
+  afterEach(() => {
+    executeStub.mockRestore();
+  });
+
+  it('is created by xapi.store()', () => {
+    expect(xapi.store('Audio')).toBeInstanceOf(Store);
+  });
+
+  it('fetches initial values after subscribing', async () => {
+    const store = await xapi.store(['Audio', 'Call']).ready();
+
+    const methods = executeStub.mock.calls.map(([method]) => method);
+    expect(methods).toEqual([
+      'xFeedback/Subscribe',
+      'xFeedback/Subscribe',
+      'xGet',
+      'xGet',
+    ]);
+    expect(store.getSnapshot()).toEqual({
+      Audio: { Volume: '50' },
+      Call: [{ id: '1', Status: 'Connected' }],
+    });
+    expect(store.getSnapshot('Audio Volume')).toEqual('50');
+    expect(store.getSnapshot('Call[1]/Status')).toEqual('Connected');
+  });
+
+  it('applies feedback', async () => {
+    const store = await xapi.store(['Audio', 'Call']).ready();
+
+    xapi.feedback.dispatch({ Id: 0, Status: { Audio: { Volume: '60' } } });
+
+    expect(store.getSnapshot('Audio Volume')).toEqual('60');
+  });
+
+  it('adds and updates array elements', async () => {
+    const store = await xapi.store('Call').ready();
+
+    xapi.feedback.dispatch({
+      Id: 0,
+      Status: {
+        Call: [
+          { id: '1', Status: 'Disconnecting' },
+          { id: '2', Status: 'Dialling' },
+        ],
+      },
+    });
+
+    expect(store.getSnapshot('Call')).toEqual([
+      { id: '1', Status: 'Disconnecting' },
+      { id: '2', Status: 'Dialling' },
+    ]);
+  });
+
+  it('removes ghost array elements', async () => {
+    const store = await xapi.store('Call').ready();
+
+    xapi.feedback.dispatch({
+      Id: 0,
+      Status: { Call: [{ ghost: 'True', id: '1' }] },
+    });
+
+    expect(store.getSnapshot('Call')).toEqual([]);
+  });
+
+  it('ignores feedback outside of mirrored paths', async () => {
+    await xapi.store('Audio').ready();
+    const store = await xapi.store('Audio Volume').ready();
+
+    xapi.feedback.dispatch({
+      Id: 0,
+      Status: { Audio: { Microphones: { Mute: 'On' }, Volume: '70' } },
+    });
+
+    expect(store.getSnapshot()).toEqual({ Audio: { Volume: '70' } });
+  });
+
+  it('keeps identity of unchanged parts', async () => {
+    const store = await xapi.store(['Audio', 'Call']).ready();
+    const call = store.getSnapshot('Call');
+
+    xapi.feedback.dispatch({ Id: 0, Status: { Audio: { Volume: '60' } } });
+
+    expect(store.getSnapshot('Call')).toBe(call);
+  });
+
+  describe('.subscribe()', () => {
+    it('notifies listeners on change', async () => {
+      const store = await xapi.store('Audio').ready();
+      const listener = jest.fn();
+      const off = store.subscribe(listener);
+
+      xapi.feedback.dispatch({ Id: 0, Status: { Audio: { Volume: '60' } } });
+      off();
+      xapi.feedback.dispatch({ Id: 0, Status: { Audio: { Volume: '70' } } });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies once per feedback payload', async () => {
+      const store = await xapi.store('Call').ready();
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      xapi.feedback.dispatch({
+        Id: 0,
+        Status: { Call: [{ id: '1', Status: 'A' }, { id: '2', Status: 'B' }] },
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('.select()', () => {
+    it('notifies only when the selected value changes', async () => {
+      const store = await xapi.store(['Audio', 'Call']).ready();
+      const listener = jest.fn();
+      store.select((state) => state.Call.length, listener);
+
+      xapi.feedback.dispatch({ Id: 0, Status: { Audio: { Volume: '60' } } });
+      xapi.feedback.dispatch({
+        Id: 1,
+        Status: { Call: [{ id: '2', Status: 'Dialling' }] },
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('.close()', () => {
+    it('de-registers feedback', async () => {
+      const store = await xapi.store('Audio').ready();
+
+      store.close();
+      await new Promise((resolve) => setImmediate(resolve));
+      xapi.feedback.dispatch({ Id: 0, Status: { Audio: { Volume: '60' } } });
+
+      expect(executeStub).toHaveBeenCalledWith('xFeedback/Unsubscribe', {
+        Id: 0,
+      });
+      expect(store.getSnapshot('Audio Volume')).toEqual('50');
+    });
+  });
+
+  it('resyncs after reconnect', async () => {
+    const store = await xapi.store('Audio').ready();
+    values['Status/Audio'] = { Volume: '30' };
+
+    xapi.emit('reconnected', xapi);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(store.getSnapshot('Audio Volume')).toEqual('30');
+  });
+
+  it('keeps feedback received while resyncing', async () => {
+    const store = await xapi.store(['Audio', 'Call']).ready();
+    let respond: (value: any) => void = () => undefined;
+    executeStub.mockImplementation((method, params: any) =>
+      params.Path.join('/') === 'Status/Audio'
+        ? new Promise((resolve) => {
+            respond = resolve;
+          })
+        : Promise.resolve(values[params.Path.join('/')]),
+    );
+
+    const resynced = store.resync();
+    xapi.feedback.dispatch({
+      Id: 0,
+      Status: { Audio: { Microphones: { Mute: 'On' }, Volume: '60' } },
+    });
+    respond({ Microphones: { Mute: 'Off' }, Volume: '50' });
+    await resynced;
+
+    expect(store.getSnapshot('Audio')).toEqual({
+      Microphones: { Mute: 'On' },
+      Volume: '60',
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { EventEmitter } from 'events';
+
+import ListenerTrie from '../../src/xapi/trie';
+
+/**
+ * Payload with a large amount of feedback, similar to the full status of
+ * the video inputs and outputs of a device.
+ */
+function createLargePayload() {
+  const connector = (id: number) => {
+    const element: any = { id: id.toString() };
+    for (let i = 0; i < 20; i += 1) {
+      element[`Field${i}`] = { Value: i, Source: { Status: 'OK' } };
+    }
+    return element;
+  };
+  const connectors = (count: number) =>
+    Array.from({ length: count }, (_, i) => connector(i + 1));
+
+  return {
+    Id: 1,
+    Status: {
+      Audio: { Volume: '50' },
+      Video: {
+        Input: { Connector: connectors(50), Source: connectors(50) },
+        Output: { Connector: connectors(50) },
+      },
+    },
+  };
+}
+
+/**
+ * Reference dispatch emitting an event for every node of the payload, as
+ * done before feedback was routed through the trie.
+ */
+function emitAll(emitter: EventEmitter, data: any, path: string[] = []) {
+  if (Array.isArray(data)) {
+    data.forEach((child) => {
+      emitAll(emitter, child, path);
+      emitAll(emitter, child, path.concat(child.id));
+    });
+    return;
+  }
+  emitter.emit(path.join('/').toLowerCase(), data);
+  if (typeof data === 'object') {
+    Object.keys(data).forEach((key) => {
+      emitAll(emitter, data[key], path.concat(key));
+    });
+  }
+}
+
+function measure(iterations: number, fn: () => void) {
+  const start = process.hrtime();
+  for (let i = 0; i < iterations; i += 1) {
+    fn();
+  }
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return seconds * 1e3 + nanoseconds / 1e6;
+}
+
+describe('ListenerTrie', () => {
+  let trie: ListenerTrie;
+
+  beforeEach(() => {
+    trie = new ListenerTrie();
+  });
+
+  it('invokes exact listeners case insensitively', () => {
+    const spy = jest.fn();
+    const data = { Id: 3, Status: { Audio: { Volume: '50' } } };
+
+    trie.add(['status', 'audio', 'volume'], 'exact', spy);
+    trie.dispatch(data);
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy).toHaveBeenCalledWith('50', data, 3, [
+      'Status',
+      'Audio',
+      'Volume',
+    ]);
+  });
+
+  it('walks array elements with and without index', () => {
+    const all = jest.fn();
+    const element = jest.fn();
+    const status = jest.fn();
+    const data = {
+      Status: {
+        Call: [
+          { Status: 'Connected', id: '1' },
+          { Status: 'Dialling', id: '2' },
+        ],
+      },
+    };
+
+    trie.add(['Status', 'Call'], 'exact', all);
+    trie.add(['Status', 'Call', 2], 'exact', element);
+    trie.add(['Status', 'Call', 'Status'], 'exact', status);
+    trie.dispatch(data);
+
+    expect(all).toHaveBeenCalledTimes(2);
+    expect(element).toHaveBeenCalledTimes(1);
+    expect(element).toHaveBeenCalledWith(
+      { Status: 'Dialling', id: '2' },
+      data,
+      undefined,
+      ['Status', 'Call', 2],
+    );
+    expect(status.mock.calls.map(([value, , , path]) => [value, path])).toEqual([
+      ['Connected', ['Status', 'Call', 1, 'Status']],
+      ['Dialling', ['Status', 'Call', 2, 'Status']],
+    ]);
+  });
+
+  it('invokes pattern listeners for every path below the node', () => {
+    const spy = jest.fn();
+    const data = { Status: { Call: [{ Status: 'Connected', id: '1' }] } };
+
+    trie.add(['Status', 'Call'], 'pattern', spy);
+    trie.dispatch(data);
+
+    expect(spy.mock.calls.map(([path]) => path)).toEqual([
+      ['Status', 'Call', 1],
+      ['Status', 'Call', 1, 'Status'],
+      ['Status', 'Call', 1, 'id'],
+    ]);
+  });
+
+  it('invokes remove listeners on and below removed elements', () => {
+    const parent = jest.fn();
+    const child = jest.fn();
+    const other = jest.fn();
+    const data = { Status: { Call: [{ ghost: 'True', id: '1' }] } };
+
+    trie.add(['Status', 'Call'], 'remove', parent);
+    trie.add(['Status', 'Call', 1, 'Status'], 'remove', child);
+    trie.add(['Status', 'Call', 2], 'remove', other);
+    trie.dispatch(data);
+
+    expect(parent).toHaveBeenCalledWith(
+      ['Status', 'Call', 1],
+      { ghost: 'True', id: '1' },
+      data,
+      undefined,
+    );
+    expect(child).toHaveBeenCalledTimes(1);
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('stops invoking removed listeners', () => {
+    const spy = jest.fn();
+    const path = ['Status', 'Audio', 'Volume'];
+
+    trie.add(path, 'exact', spy);
+    trie.remove(path, 'exact', spy);
+    trie.dispatch({ Status: { Audio: { Volume: '50' } } });
+
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('does not walk branches without listeners', () => {
+    const spy = jest.fn();
+    const video = jest.fn(() => ({ Input: {} }));
+    const data = { Status: { Audio: { Volume: '50' } } };
+    Object.defineProperty(data.Status, 'Video', {
+      enumerable: true,
+      get: video,
+    });
+
+    trie.add(['Status', 'Audio', 'Volume'], 'exact', spy);
+    trie.dispatch(data);
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(video).not.toHaveBeenCalled();
+  });
+
+  describe('benchmark', () => {
+    it('dispatches large payloads faster than emitting every path', () => {
+      const payload = createLargePayload();
+      const iterations = 10;
+
+      const emitter = new EventEmitter();
+      const emitterSpy = jest.fn();
+      emitter.on('status/audio/volume', emitterSpy);
+      const trieSpy = jest.fn();
+      trie.add(['Status', 'Audio', 'Volume'], 'exact', trieSpy);
+
+      // Warm up
+      emitAll(emitter, payload);
+      trie.dispatch(payload);
+
+      const reference = measure(iterations, () => emitAll(emitter, payload));
+      const routed = measure(iterations, () => trie.dispatch(payload));
+
+      expect(trieSpy).toHaveBeenCalledTimes(emitterSpy.mock.calls.length);
+      expect(routed * 10).toBeLessThan(reference);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { findKey, isObject, toIndex } from '../../src/xapi/utils';
+
+describe('utils', () => {
+  describe('isObject()', () => {
+    it('accepts objects only', () => {
+      expect(isObject({})).toBe(true);
+      expect(isObject([])).toBe(false);
+      expect(isObject(null)).toBe(false);
+      expect(isObject('foo')).toBe(false);
+    });
+  });
+
+  describe('findKey()', () => {
+    it('finds keys case insensitively', () => {
+      const obj = { Audio: {}, id: '1' };
+      expect(findKey(obj, 'audio')).toEqual('Audio');
+      expect(findKey(obj, 'ID')).toEqual('id');
+      expect(findKey(obj, 'Video')).toBeUndefined();
+    });
+  });
+
+  describe('toIndex()', () => {
+    it('converts numeric ids', () => {
+      expect(toIndex('42')).toEqual(42);
+      expect(toIndex(7)).toEqual(7);
+      expect(toIndex('abc')).toEqual('abc');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  formatValueSpace,
+  parseValueSpace,
+  validateValue,
+} from '../../src/xapi/valuespace';
+
+describe('valuespace', () => {
+  describe('parseValueSpace()', () => {
+    it('parses integer ranges', () => {
+      expect(
+        parseValueSpace({
+          default: '50',
+          max: '100',
+          min: '0',
+          required: 'True',
+          type: 'Integer',
+        }),
+      ).toEqual({
+        default: '50',
+        max: 100,
+        min: 0,
+        required: true,
+        type: 'Integer',
+      });
+    });
+
+    it('parses literals and string lengths', () => {
+      expect(
+        parseValueSpace({ type: 'Literal', Value: ['On', 'Off'] }),
+      ).toEqual({ literals: ['On', 'Off'], type: 'Literal' });
+      expect(
+        parseValueSpace({ maxLength: '255', minLength: '0', type: 'String' }),
+      ).toEqual({ maxLength: 255, minLength: 0, type: 'String' });
+    });
+
+    it('returns undefined for invalid value spaces', () => {
+      expect(parseValueSpace(undefined)).toBeUndefined();
+      expect(parseValueSpace({ Value: ['On'] })).toBeUndefined();
+    });
+  });
+
+  describe('formatValueSpace()', () => {
+    it('describes integer ranges', () => {
+      expect(formatValueSpace({ max: 100, min: 0, type: 'Integer' })).toEqual(
+        '0..100',
+      );
+      expect(formatValueSpace({ min: 1, type: 'Integer' })).toEqual(
+        'at least 1',
+      );
+      expect(formatValueSpace({ type: 'Integer' })).toEqual('an integer');
+    });
+
+    it('describes literals', () => {
+      expect(
+        formatValueSpace({ literals: ['On', 'Off'], type: 'Literal' }),
+      ).toEqual('one of On, Off');
+    });
+
+    it('describes strings', () => {
+      expect(
+        formatValueSpace({ maxLength: 255, minLength: 0, type: 'String' }),
+      ).toEqual('a string of 0..255 characters');
+      expect(formatValueSpace({ type: 'String' })).toEqual('a string');
+    });
+  });
+
+  describe('validateValue()', () => {
+    it('checks integer ranges', () => {
+      const valueSpace = { max: 100, min: 0, type: 'Integer' };
+      expect(validateValue(valueSpace, 50)).toBeUndefined();
+      expect(validateValue(valueSpace, '50')).toBeUndefined();
+      expect(validateValue(valueSpace, 101)).toEqual('Out of range');
+      expect(validateValue(valueSpace, 'loud')).toEqual('Expected an integer');
+      expect(validateValue(valueSpace, 1.5)).toEqual('Expected an integer');
+    });
+
+    it('checks literals case insensitively', () => {
+      const valueSpace = { literals: ['On', 'Off'], type: 'Literal' };
+      expect(validateValue(valueSpace, 'on')).toBeUndefined();
+      expect(validateValue(valueSpace, 'Auto')).toEqual('Invalid value');
+    });
+
+    it('checks string lengths', () => {
+      const valueSpace = { maxLength: 3, minLength: 1, type: 'String' };
+      expect(validateValue(valueSpace, 'abc')).toBeUndefined();
+      expect(validateValue(valueSpace, '')).toEqual('Invalid length');
+      expect(validateValue(valueSpace, { a: 1 })).toEqual('Expected a string');
+    });
+
+    it('checks array types', () => {
+      const literals = { literals: ['A', 'B'], type: 'LiteralArray' };
+      expect(validateValue(literals, ['A', 'B'])).toBeUndefined();
+      expect(validateValue(literals, 'A')).toBeUndefined();
+      expect(validateValue(literals, ['A', 'C'])).toEqual('Invalid value');
+      expect(validateValue({ type: 'Integer' }, [1, 2])).toEqual(
+        'Expected a single value',
+      );
+    });
+  });
+});